@@ -1,5 +1,14 @@
+import { gzipSync } from 'zlib'
 import axios, { AxiosInstance } from 'axios'
 import type { Logger } from '../utils/logger.js'
+import type { LatencyStats } from '../monitor/baseline.js'
+import type { PingQualityStats } from '../scanner/ping.js'
+import type { HttpAuth, HttpMethod, HttpTimings } from '../scanner/http.js'
+import type { SslDetails, SslPolicy } from '../scanner/ssl.js'
+import type { StartTlsProtocol } from '../scanner/starttls.js'
+import type { OutboundAgents } from './http-agents.js'
+import { signRequest } from './signing.js'
+import type { SchedulerMetrics } from '../scheduler/scheduler.js'
 
 export interface NetworkSegment {
   id: string
@@ -9,6 +18,8 @@ export interface NetworkSegment {
   segment_type: 'local_scan' | 'remote_monitor'
   is_auto_registered?: boolean
   interface_name?: string
+  // Devices in the segment depend on this gateway and are unreachable while it is down
+  gateway_ip?: string
 }
 
 export interface HeartbeatResponse {
@@ -27,6 +38,35 @@ export interface HeartbeatResponse {
   upgrade_available?: boolean
   // Pending commands (fallback when realtime is down)
   pending_commands?: AgentCommand[]
+  // Scheduled maintenance (omitted by dashboards that don't manage windows)
+  maintenance_windows?: MaintenanceWindow[]
+}
+
+/**
+ * Recurring maintenance window. Devices matched by id, segment or tag keep being probed,
+ * but their results are tagged in_maintenance and don't count toward status thresholds.
+ */
+export interface MaintenanceWindow {
+  id: string
+  name?: string
+  // Start times as a 5-field cron expression (minute hour day-of-month month day-of-week)
+  schedule: string
+  duration_minutes: number
+  // Zone the schedule is evaluated in (default: the agent's local time)
+  timezone?: 'local' | 'utc'
+  device_ids?: string[]
+  segment_ids?: string[]
+  tags?: string[]
+}
+
+// Optional agent health details sent with every heartbeat
+export interface HeartbeatMetadata {
+  // Expiry of the mTLS client certificate, so renewals can be tracked
+  client_cert_expires_at?: string
+  // Dashboard payloads rejected by runtime validation since the agent started
+  validation_errors?: number
+  // Check scheduler load and lag
+  scheduler?: SchedulerMetrics
 }
 
 export interface AutoSegmentRequest {
@@ -37,11 +77,14 @@ export interface AutoSegmentRequest {
 
 export interface AgentCommand {
   id: string
-  command_type: 'scan_now' | 'scan_segment' | 'update_config' | 'restart' | 'upgrade' | 'ping'
+  command_type: 'scan_now' | 'scan_segment' | 'update_config' | 'restart' | 'upgrade' | 'ping' | 'rotate_key'
   payload?: Record<string, unknown>
   status: 'pending' | 'completed' | 'failed'
   created_at: string
   executed_at?: string
+  // Dashboard signature (base64) over the command, and the time after which it must not run
+  signature?: string
+  expires_at?: string
 }
 
 export interface DiscoveredDevice {
@@ -68,6 +111,13 @@ export interface DiscoveredDevice {
   discovery_method: 'arp' | 'mdns' | 'ssdp' | 'snmp'
 }
 
+// Position of an upload within a chunked scan, so the dashboard can reassemble it
+export interface DiscoveryChunkInfo {
+  scan_id: string
+  chunk_index: number
+  chunk_count: number
+}
+
 export interface DiscoveryResponse {
   success: boolean
   created: number
@@ -75,11 +125,58 @@ export interface DiscoveryResponse {
   unchanged: number
 }
 
+export type CheckType = 'ping' | 'ping_quality' | 'http' | 'tcp' | 'ssl' | 'dns'
+
+/**
+ * One independently scheduled check of a device
+ */
+export interface DeviceCheck {
+  // Stable within the device; reported back as StatusReport.check_id
+  id: string
+  check_type: CheckType
+  port?: number | null
+  url?: string
+  interval_seconds?: number
+  // Consecutive failures before the check reports offline
+  failure_threshold?: number
+  ssl_expiry_warn_days?: number
+  // ssl: upgrade a plain-text connection with this protocol's STARTTLS (default port follows the protocol)
+  ssl_starttls?: StartTlsProtocol
+  // ssl: PEM CA certificates to validate the chain against instead of the system store
+  ssl_ca?: string
+  // ssl: chain, hostname, protocol, cipher, key, signature and fingerprint rules
+  ssl_policy?: SslPolicy
+  dns_expected_ip?: string
+  // ping_quality: echo requests per burst and the delay between them
+  ping_count?: number
+  ping_interval_ms?: number
+  // ping_quality: loss (%) and jitter (ms) above which the check is degraded
+  max_packet_loss_percent?: number
+  max_jitter_ms?: number
+  // http: request
+  http_method?: HttpMethod
+  http_headers?: Record<string, string>
+  http_body?: string
+  http_auth?: HttpAuth
+  // http: redirects to follow (0 = report the redirect itself) and certificate verification
+  max_redirects?: number
+  tls_verify?: boolean
+  // http: assertions; any failure makes the check degraded
+  expected_status_codes?: (number | string)[]
+  body_contains?: string
+  body_regex?: string
+  json_path?: string
+  json_expected?: unknown
+  max_response_bytes?: number
+  enabled?: boolean
+}
+
 export interface DeviceToMonitor {
   id: string
   ip_address?: string
   hostname?: string
-  check_type: 'ping' | 'http' | 'tcp' | 'ssl' | 'dns'
+  // Legacy single check, used when `checks` is absent
+  check_type: CheckType
   port?: number | null
   url?: string
   is_monitored: boolean
@@ -87,20 +184,44 @@ export interface DeviceToMonitor {
   ssl_expiry_warn_days?: number
   dns_expected_ip?: string
   network_segment_id?: string
+  tags?: string[]
+  // Upstream devices (e.g. the switch it hangs off) this device is only reachable through
+  parent_device_ids?: string[]
+  checks?: DeviceCheck[]
 }
 
 export interface StatusReport {
   device_id?: string
   ip_address: string
-  status: 'online' | 'offline' | 'degraded' | 'unknown'
+  // 'flapping' replaces the status while it keeps changing (see flap_score);
+  // 'unreachable' replaces offline while an upstream dependency is down (see unreachable_via)
+  status: 'online' | 'offline' | 'degraded' | 'flapping' | 'unreachable' | 'unknown'
   response_time_ms: number | null
-  check_type: 'ping' | 'http' | 'tcp' | 'ssl' | 'dns'
+  check_type: CheckType
+  // Which of the device's checks produced this report
+  check_id?: string
+  // Overall device status rolled up from the latest result of each of its checks
+  device_status?: 'online' | 'offline' | 'degraded' | 'flapping' | 'unreachable' | 'unknown'
+  // Device id (or `ip:<address>` for an undiscovered gateway) of the parent that is down
+  unreachable_via?: string
+  // Learned latency of this device/check; latency anomalies turn an online result degraded
+  latency_baseline?: LatencyStats
+  // % of recent checks that changed state
+  flap_score?: number
+  // Checked during a maintenance window; excluded from thresholds
+  in_maintenance?: boolean
   checked_at: string
   error?: string
   // SSL metadata
   ssl_expiry_at?: string
   ssl_issuer?: string
   ssl_subject?: string
+  // Chain/hostname validity, protocol, cipher, key, signature algorithm and fingerprint
+  ssl_details?: SslDetails
+  // Loss, round-trip times and jitter of a ping_quality check
+  ping_quality?: PingQualityStats
+  // DNS, connect, TLS, time-to-first-byte and transfer durations of an HTTP check
+  http_timings?: HttpTimings
 }
 
 export interface StatusResponse {
@@ -109,50 +230,98 @@ export interface StatusResponse {
   errors: string[]
 }
 
+export interface DashboardClientOptions {
+  // Gzip discovery upload bodies (Content-Encoding: gzip)
+  gzipUploads?: boolean
+}
+
 export class DashboardClient {
   private client: AxiosInstance
   private logger: Logger
+  private apiKey: string
+  private gzipUploads: boolean
 
-  constructor(dashboardUrl: string, apiKey: string, logger: Logger) {
+  constructor(
+    dashboardUrl: string,
+    apiKey: string,
+    logger: Logger,
+    agents?: OutboundAgents,
+    options: DashboardClientOptions = {}
+  ) {
     this.logger = logger
+    this.apiKey = apiKey
+    this.gzipUploads = options.gzipUploads ?? false
+    const agent = agents?.agentFor(dashboardUrl)
     this.client = axios.create({
       baseURL: dashboardUrl,
       timeout: 30000,
+      // Proxying is handled by the outbound agents (axios' built-in proxy support can't tunnel HTTPS)
+      ...(agent ? { proxy: false, httpAgent: agent, httpsAgent: agent } : {}),
       headers: {
         'X-Agent-Key': apiKey,
         'Content-Type': 'application/json',
         'X-Agent-Client': 'VelocityPulse-Agent/1.0',
       },
     })
+
+    // Sign every request. The body is serialized (and compressed) here so the signature covers the exact bytes sent.
+    this.client.interceptors.request.use((request) => {
+      let body: string | Buffer = request.data === undefined ? '' : JSON.stringify(request.data)
+      if (request.headers.get('Content-Encoding') === 'gzip') {
+        body = gzipSync(body)
+      }
+      if (request.data !== undefined) {
+        request.data = body
+      }
+      const url = new URL(this.client.getUri(request))
+      request.headers.set(signRequest(this.apiKey, request.method ?? 'get', url.pathname + url.search, body))
+      return request
+    })
+  }
+
+  /**
+   * Replace the API key used for all subsequent requests
+   */
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey
+    this.client.defaults.headers['X-Agent-Key'] = apiKey
   }
 
   /**
    * Send heartbeat to dashboard and get assigned segments
    */
-  async heartbeat(version: string, hostname: string): Promise<HeartbeatResponse> {
+  async heartbeat(version: string, hostname: string, metadata: HeartbeatMetadata = {}): Promise<HeartbeatResponse> {
     this.logger.debug('Sending heartbeat to dashboard')
     const response = await this.client.post<HeartbeatResponse>('/api/agent/heartbeat', {
       version,
       hostname,
       uptime_seconds: Math.floor(process.uptime()),
+      ...metadata,
     })
-    this.logger.debug(`Heartbeat response: ${response.data.segments.length} segments, org: ${response.data.organization_id}`)
+    this.logger.debug(`Heartbeat response: ${response.data.segments?.length ?? 0} segments, org: ${response.data.organization_id}`)
     return response.data
   }
 
   /**
-   * Upload discovered devices from network scan
+   * Upload discovered devices from network scan (or one chunk of a large scan)
    */
   async uploadDiscoveredDevices(
     segmentId: string,
-    devices: DiscoveredDevice[]
+    devices: DiscoveredDevice[],
+    scanTimestamp: string = new Date().toISOString(),
+    chunk?: DiscoveryChunkInfo
   ): Promise<DiscoveryResponse> {
     this.logger.debug(`Uploading ${devices.length} discovered devices for segment ${segmentId}`)
-    const response = await this.client.post<DiscoveryResponse>('/api/agent/devices/discovered', {
-      segment_id: segmentId,
-      scan_timestamp: new Date().toISOString(),
-      devices,
-    })
+    const response = await this.client.post<DiscoveryResponse>(
+      '/api/agent/devices/discovered',
+      {
+        segment_id: segmentId,
+        scan_timestamp: scanTimestamp,
+        ...chunk,
+        devices,
+      },
+      this.gzipUploads ? { headers: { 'Content-Encoding': 'gzip' } } : undefined
+    )
     return response.data
   }
 
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { CommandLedger } from './command-ledger.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+let dataDir: string
+
+beforeEach(async () => {
+  vi.clearAllMocks()
+  dataDir = await mkdtemp(path.join(os.tmpdir(), 'vp-ledger-'))
+})
+
+afterEach(async () => {
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+describe('CommandLedger', () => {
+  it('claims a command id only once', async () => {
+    const ledger = new CommandLedger({ dataDir }, mockLogger)
+    await ledger.load()
+
+    expect(ledger.begin('cmd-1', 'scan_now')).toBe(true)
+    expect(ledger.begin('cmd-1', 'scan_now')).toBe(false)
+    expect(ledger.get('cmd-1')?.state).toBe('received')
+  })
+
+  it('keeps the result of finished commands across restarts', async () => {
+    const ledger = new CommandLedger({ dataDir }, mockLogger)
+    await ledger.load()
+    ledger.begin('cmd-1', 'scan_now')
+    await ledger.markRunning('cmd-1')
+    await ledger.finish('cmd-1', true, { devices_found: 3 })
+
+    const reloaded = new CommandLedger({ dataDir }, mockLogger)
+    await reloaded.load()
+
+    expect(reloaded.begin('cmd-1', 'scan_now')).toBe(false)
+    expect(reloaded.get('cmd-1')).toMatchObject({ state: 'completed', result: { devices_found: 3 }, acked: false })
+    expect(reloaded.getUnacknowledged().map(e => e.id)).toEqual(['cmd-1'])
+  })
+
+  it('marks commands interrupted by a restart as failed', async () => {
+    const ledger = new CommandLedger({ dataDir }, mockLogger)
+    await ledger.load()
+    ledger.begin('cmd-1', 'upgrade')
+    await ledger.markRunning('cmd-1')
+
+    const reloaded = new CommandLedger({ dataDir }, mockLogger)
+    await reloaded.load()
+
+    expect(reloaded.get('cmd-1')).toMatchObject({ state: 'failed', error: 'Agent restarted before command finished' })
+  })
+
+  it('stops reporting commands once acknowledged', async () => {
+    const ledger = new CommandLedger({ dataDir }, mockLogger)
+    await ledger.load()
+    ledger.begin('cmd-1', 'restart')
+    await ledger.finish('cmd-1', true, { restarting: true })
+    await ledger.markAcked('cmd-1')
+
+    expect(ledger.getUnacknowledged()).toHaveLength(0)
+  })
+})
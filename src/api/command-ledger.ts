@@ -0,0 +1,172 @@
+import path from 'path'
+import type { Logger } from '../utils/logger.js'
+import { readJsonFile, writeJsonFileAtomic } from '../utils/json-file.js'
+
+export type CommandState = 'received' | 'running' | 'completed' | 'failed'
+
+export interface CommandLedgerEntry {
+  id: string
+  commandType: string
+  state: CommandState
+  receivedAt: number
+  updatedAt: number
+  result?: Record<string, unknown>
+  error?: string
+  acked: boolean
+}
+
+export interface CommandLedgerOptions {
+  dataDir: string
+  retentionMs?: number
+  maxEntries?: number
+}
+
+/**
+ * Persisted record of every command the agent has seen, keyed by command id.
+ *
+ * The same command can be delivered by realtime, the heartbeat's pending list and the socket.
+ * The ledger makes execution idempotent and keeps each result so a lost ack can be re-sent.
+ */
+export class CommandLedger {
+  private entries = new Map<string, CommandLedgerEntry>()
+  private logger: Logger
+  private filePath: string
+  private retentionMs: number
+  private maxEntries: number
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(options: CommandLedgerOptions, logger: Logger) {
+    this.logger = logger
+    this.filePath = path.join(options.dataDir, 'commands.json')
+    this.retentionMs = options.retentionMs ?? 7 * 24 * 60 * 60 * 1000
+    this.maxEntries = options.maxEntries ?? 1000
+  }
+
+  /**
+   * Load the ledger from disk. Commands that were mid-flight when the agent stopped
+   * are marked failed so they are acknowledged instead of re-executed.
+   */
+  async load(): Promise<void> {
+    try {
+      const stored = await readJsonFile<CommandLedgerEntry[]>(this.filePath)
+      this.entries = new Map((stored ?? []).map(e => [e.id, e]))
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      this.logger.warn(`Command ledger unreadable, starting empty: ${errorMsg}`)
+      this.entries.clear()
+    }
+
+    let interrupted = 0
+    for (const entry of this.entries.values()) {
+      if (entry.state === 'received' || entry.state === 'running') {
+        entry.state = 'failed'
+        entry.error = 'Agent restarted before command finished'
+        entry.acked = false
+        entry.updatedAt = Date.now()
+        interrupted++
+      }
+    }
+
+    if (interrupted > 0) {
+      this.logger.warn(`${interrupted} command(s) were interrupted by a restart and will be reported as failed`)
+    }
+
+    this.prune()
+    await this.persist()
+  }
+
+  get(id: string): CommandLedgerEntry | undefined {
+    return this.entries.get(id)
+  }
+
+  /**
+   * Record a newly delivered command. Returns false if the command was already seen.
+   * The check and insert are synchronous so concurrent deliveries cannot both claim it.
+   */
+  begin(id: string, commandType: string): boolean {
+    if (this.entries.has(id)) {
+      return false
+    }
+
+    const now = Date.now()
+    this.entries.set(id, {
+      id,
+      commandType,
+      state: 'received',
+      receivedAt: now,
+      updatedAt: now,
+      acked: false,
+    })
+    this.persist()
+    return true
+  }
+
+  async markRunning(id: string): Promise<void> {
+    this.update(id, { state: 'running' })
+    await this.persist()
+  }
+
+  async finish(id: string, success: boolean, result?: Record<string, unknown>, error?: string): Promise<void> {
+    this.update(id, { state: success ? 'completed' : 'failed', result, error })
+    await this.persist()
+  }
+
+  async markAcked(id: string): Promise<void> {
+    this.update(id, { acked: true })
+    await this.persist()
+  }
+
+  /**
+   * Finished commands whose acknowledgement has not reached the dashboard yet
+   */
+  getUnacknowledged(): CommandLedgerEntry[] {
+    return Array.from(this.entries.values())
+      .filter(e => !e.acked && (e.state === 'completed' || e.state === 'failed'))
+  }
+
+  private update(id: string, changes: Partial<CommandLedgerEntry>): void {
+    const entry = this.entries.get(id)
+    if (!entry) return
+    Object.assign(entry, changes, { updatedAt: Date.now() })
+  }
+
+  /**
+   * Drop acknowledged entries past retention, then the oldest acknowledged entries beyond maxEntries
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs
+    for (const [id, entry] of this.entries) {
+      if (entry.acked && entry.updatedAt < cutoff) {
+        this.entries.delete(id)
+      }
+    }
+
+    if (this.entries.size > this.maxEntries) {
+      const removable = Array.from(this.entries.values())
+        .filter(e => e.acked)
+        .sort((a, b) => a.updatedAt - b.updatedAt)
+      for (const entry of removable.slice(0, this.entries.size - this.maxEntries)) {
+        this.entries.delete(entry.id)
+      }
+    }
+  }
+
+  /**
+   * Write the ledger atomically, serialized across callers
+   */
+  private persist(): Promise<void> {
+    this.prune()
+    const snapshot = JSON.stringify(Array.from(this.entries.values()))
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await writeJsonFileAtomic(this.filePath, snapshot)
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.error(`Failed to persist command ledger: ${errorMsg}`)
+      }
+    })
+
+    return this.writeChain
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AxiosError, AxiosHeaders } from 'axios'
+import { buildDiscoveryChunks, uploadDiscoveryChunks, type DiscoveryChunk } from './discovery-upload.js'
+import type { DiscoveredDevice } from './client.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+function devices(count: number): DiscoveredDevice[] {
+  return Array.from({ length: count }, (_, i) => ({
+    ip_address: `10.0.${Math.floor(i / 256)}.${i % 256}`,
+    discovery_method: 'arp' as const,
+  }))
+}
+
+const ok = { success: true, created: 1, updated: 0, unchanged: 0 }
+
+describe('buildDiscoveryChunks', () => {
+  it('splits devices into indexed chunks sharing one scan id', () => {
+    const chunks = buildDiscoveryChunks('seg-1', devices(5), '2026-01-01T00:00:00.000Z', 2)
+
+    expect(chunks.map(c => c.devices.length)).toEqual([2, 2, 1])
+    expect(chunks.map(c => c.chunk_index)).toEqual([0, 1, 2])
+    expect(new Set(chunks.map(c => c.scan_id)).size).toBe(1)
+    expect(chunks.every(c => c.chunk_count === 3 && c.segment_id === 'seg-1')).toBe(true)
+  })
+
+  it('still produces one chunk for an empty scan', () => {
+    expect(buildDiscoveryChunks('seg-1', [], '2026-01-01T00:00:00.000Z', 100)).toHaveLength(1)
+  })
+})
+
+describe('uploadDiscoveryChunks', () => {
+  it('retries a failing chunk without resending the others', async () => {
+    const chunks = buildDiscoveryChunks('seg-1', devices(3), '2026-01-01T00:00:00.000Z', 1)
+    const send = vi.fn(async (chunk: DiscoveryChunk) => {
+      if (chunk.chunk_index === 1 && send.mock.calls.filter(([c]) => c.chunk_index === 1).length < 2) {
+        throw new Error('ETIMEDOUT')
+      }
+      return ok
+    })
+
+    const { response, failed } = await uploadDiscoveryChunks(chunks, send, mockLogger, { retryDelayMs: 0 })
+
+    expect(send.mock.calls.map(([c]) => c.chunk_index)).toEqual([0, 1, 1, 2])
+    expect(failed).toEqual([])
+    expect(response.created).toBe(3)
+  })
+
+  it('returns chunks that exhaust their retries and skips rejected ones', async () => {
+    const chunks = buildDiscoveryChunks('seg-1', devices(3), '2026-01-01T00:00:00.000Z', 1)
+    const headers = new AxiosHeaders()
+    const rejected = new AxiosError('Bad Request', 'ERR_BAD_REQUEST', { headers }, null, {
+      status: 400,
+      statusText: '',
+      headers: {},
+      config: { headers },
+      data: null,
+    })
+    const send = vi.fn(async (chunk: DiscoveryChunk) => {
+      if (chunk.chunk_index === 0) throw rejected
+      if (chunk.chunk_index === 2) throw new Error('ECONNRESET')
+      return ok
+    })
+
+    const { response, failed } = await uploadDiscoveryChunks(chunks, send, mockLogger, { attempts: 2, retryDelayMs: 0 })
+
+    expect(failed.map(c => c.chunk_index)).toEqual([2])
+    expect(send).toHaveBeenCalledTimes(4)
+    expect(response.success).toBe(false)
+    expect(response.created).toBe(1)
+  })
+})
@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto'
+import type { Logger } from '../utils/logger.js'
+import type { DiscoveredDevice, DiscoveryChunkInfo, DiscoveryResponse } from './client.js'
+import { isRetryableError } from './outbox.js'
+
+/**
+ * One self-contained piece of a discovery scan. All chunks of a scan share the scan id,
+ * which stays the same across retries and outbox replays.
+ */
+export interface DiscoveryChunk extends DiscoveryChunkInfo {
+  segment_id: string
+  scan_timestamp: string
+  devices: DiscoveredDevice[]
+}
+
+export interface ChunkUploadOptions {
+  attempts?: number
+  retryDelayMs?: number
+}
+
+export interface ChunkUploadResult {
+  response: DiscoveryResponse
+  // Chunks that still failed after every retry (rejected chunks are not included)
+  failed: DiscoveryChunk[]
+}
+
+/**
+ * Split a scan into chunks of at most chunkSize devices
+ */
+export function buildDiscoveryChunks(
+  segmentId: string,
+  devices: DiscoveredDevice[],
+  scanTimestamp: string,
+  chunkSize: number
+): DiscoveryChunk[] {
+  const scanId = randomUUID()
+  const size = Math.max(1, chunkSize)
+  const chunkCount = Math.max(1, Math.ceil(devices.length / size))
+
+  return Array.from({ length: chunkCount }, (_, index) => ({
+    scan_id: scanId,
+    chunk_index: index,
+    chunk_count: chunkCount,
+    segment_id: segmentId,
+    scan_timestamp: scanTimestamp,
+    devices: devices.slice(index * size, (index + 1) * size),
+  }))
+}
+
+/**
+ * Upload chunks in order, retrying each one individually with exponential backoff.
+ * A chunk that keeps failing is returned in `failed` without affecting the others.
+ */
+export async function uploadDiscoveryChunks(
+  chunks: DiscoveryChunk[],
+  send: (chunk: DiscoveryChunk) => Promise<DiscoveryResponse>,
+  logger: Logger,
+  options: ChunkUploadOptions = {}
+): Promise<ChunkUploadResult> {
+  const attempts = options.attempts ?? 3
+  const retryDelayMs = options.retryDelayMs ?? 1000
+  const response: DiscoveryResponse = { success: true, created: 0, updated: 0, unchanged: 0 }
+  const failed: DiscoveryChunk[] = []
+
+  for (const chunk of chunks) {
+    const label = `chunk ${chunk.chunk_index + 1}/${chunk.chunk_count} of scan ${chunk.scan_id}`
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        const result = await send(chunk)
+        response.created += result.created
+        response.updated += result.updated
+        response.unchanged += result.unchanged
+        break
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+
+        if (!isRetryableError(error)) {
+          logger.warn(`Discovery ${label} rejected by dashboard, skipping: ${errorMsg}`)
+          response.success = false
+          break
+        }
+        if (attempt === attempts) {
+          logger.warn(`Discovery ${label} failed after ${attempts} attempts: ${errorMsg}`)
+          response.success = false
+          failed.push(chunk)
+          break
+        }
+
+        const delay = retryDelayMs * 2 ** (attempt - 1)
+        logger.debug(`Discovery ${label} failed (attempt ${attempt}), retrying in ${delay}ms: ${errorMsg}`)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  return { response, failed }
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs'
+import { X509Certificate } from 'crypto'
+import * as http from 'http'
+import * as https from 'https'
+import * as tls from 'tls'
+import { HttpProxyAgent } from 'http-proxy-agent'
+import { HttpsProxyAgent } from 'https-proxy-agent'
+import type { Logger } from '../utils/logger.js'
+
+export interface OutboundOptions {
+  httpProxy?: string
+  httpsProxy?: string
+  noProxy?: string
+  proxyUsername?: string
+  proxyPassword?: string
+  caBundlePath?: string
+  // Client certificate for mutual TLS, presented only to the dashboard origin
+  dashboardUrl?: string
+  clientCertPath?: string
+  clientKeyPath?: string
+  clientKeyPassphrase?: string
+}
+
+export interface OutboundTlsOptions {
+  ca?: string[]
+  cert?: string
+  key?: string
+  passphrase?: string
+}
+
+export interface ClientCertificateInfo {
+  subject: string
+  issuer: string
+  expiresAt: string
+  fingerprint256: string
+}
+
+/**
+ * Check whether a URL matches a NO_PROXY list.
+ * Supports `*`, exact hosts, domain suffixes (`.corp.local` / `*.corp.local` / `corp.local`)
+ * and optional `:port` qualifiers.
+ */
+export function shouldBypassProxy(targetUrl: string, noProxy?: string): boolean {
+  if (!noProxy) return false
+
+  const url = new URL(targetUrl)
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  const port = url.port || (url.protocol === 'https:' || url.protocol === 'wss:' ? '443' : '80')
+
+  return noProxy
+    .split(/[\s,]+/)
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some(entry => {
+      if (entry === '*') return true
+
+      let host = entry
+      let entryPort: string | undefined
+      const portMatch = entry.match(/^(.*):(\d+)$/)
+      if (portMatch && !entry.includes('::')) {
+        host = portMatch[1]
+        entryPort = portMatch[2]
+      }
+      if (entryPort && entryPort !== port) return false
+
+      host = host.replace(/^\*/, '').replace(/^\./, '')
+      return hostname === host || hostname.endsWith(`.${host}`)
+    })
+}
+
+/**
+ * Whether two URLs point at the same host and port (ws/wss count as http/https)
+ */
+export function sameOrigin(a: string, b: string): boolean {
+  const port = (url: URL) => url.port || (url.protocol === 'https:' || url.protocol === 'wss:' ? '443' : '80')
+  const urlA = new URL(a)
+  const urlB = new URL(b)
+  return urlA.hostname.toLowerCase() === urlB.hostname.toLowerCase() && port(urlA) === port(urlB)
+}
+
+function readPem(filePath: string, name: string): string {
+  try {
+    return fs.readFileSync(filePath, 'utf-8')
+  } catch (error) {
+    throw new Error(`Cannot read ${name} (${filePath}): ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * HTTPS proxy agent that applies tlsOptions to the tunnelled connection to the target.
+ * HttpsProxyAgent only uses its constructor options for the connection to the proxy (which
+ * gets the CAs but never the client certificate); the TLS upgrade to the target gets the
+ * request options, which Node merges with `agent.options`.
+ */
+function httpsProxyAgent(proxyUrl: URL, tlsOptions: OutboundTlsOptions): HttpsProxyAgent<string> {
+  const agent = new HttpsProxyAgent(proxyUrl, { keepAlive: true, ...(tlsOptions.ca ? { ca: tlsOptions.ca } : {}) })
+  agent.options = { ...agent.options, ...tlsOptions }
+  return agent
+}
+
+/**
+ * Add proxy credentials from config to a proxy URL (URL-embedded credentials take precedence)
+ */
+function withProxyAuth(proxyUrl: string, username?: string, password?: string): URL {
+  const url = new URL(proxyUrl)
+  if (username && !url.username) {
+    url.username = encodeURIComponent(username)
+    url.password = encodeURIComponent(password ?? '')
+  }
+  return url
+}
+
+/**
+ * Builds and caches the HTTP(S) agents used for every outbound connection to the dashboard,
+ * realtime service and upgrade downloads - honouring HTTPS_PROXY/HTTP_PROXY/NO_PROXY,
+ * trusting an extra CA bundle (e.g. a TLS-inspecting proxy's root) on top of the system store,
+ * and presenting the agent's client certificate to the dashboard when mutual TLS is configured.
+ * Other hosts (realtime, upgrade downloads) never see the client certificate.
+ */
+export class OutboundAgents {
+  private options: OutboundOptions
+  private caCerts: string[] | undefined
+  private clientCert: string | undefined
+  private clientKey: string | undefined
+  private clientCertInfo: ClientCertificateInfo | null = null
+  private directHttp: http.Agent
+  private directHttps: https.Agent
+  private proxiedHttp: http.Agent | null = null
+  private proxiedHttps: http.Agent | null = null
+  // Agents that present the client certificate, used for the dashboard origin only
+  private dashboardHttps: https.Agent | null = null
+  private dashboardProxiedHttps: http.Agent | null = null
+
+  constructor(options: OutboundOptions, logger: Logger) {
+    this.options = options
+
+    if (options.caBundlePath) {
+      const bundle = fs.readFileSync(options.caBundlePath, 'utf-8')
+      // Passing `ca` replaces Node's default trust store, so keep the bundled roots too
+      this.caCerts = [...tls.rootCertificates, bundle]
+      logger.info(`Trusting additional CA bundle: ${options.caBundlePath}`)
+    }
+
+    if (options.clientCertPath || options.clientKeyPath) {
+      if (!options.clientCertPath || !options.clientKeyPath) {
+        throw new Error('TLS_CLIENT_CERT and TLS_CLIENT_KEY must be set together')
+      }
+      if (!options.dashboardUrl) {
+        throw new Error('A client certificate needs the dashboard URL it is presented to')
+      }
+      this.clientCert = readPem(options.clientCertPath, 'TLS_CLIENT_CERT')
+      this.clientKey = readPem(options.clientKeyPath, 'TLS_CLIENT_KEY')
+
+      // Fails on a key that doesn't belong to the certificate or can't be decrypted
+      try {
+        tls.createSecureContext({ cert: this.clientCert, key: this.clientKey, passphrase: options.clientKeyPassphrase })
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        throw new Error(`TLS_CLIENT_KEY does not match TLS_CLIENT_CERT or cannot be decrypted: ${errorMsg}`)
+      }
+
+      const x509 = new X509Certificate(this.clientCert)
+      this.clientCertInfo = {
+        subject: x509.subject.replace(/\n/g, ', '),
+        issuer: x509.issuer.replace(/\n/g, ', '),
+        expiresAt: new Date(x509.validTo).toISOString(),
+        fingerprint256: x509.fingerprint256,
+      }
+
+      const daysLeft = Math.floor((Date.parse(this.clientCertInfo.expiresAt) - Date.now()) / (1000 * 60 * 60 * 24))
+      if (daysLeft < 0) {
+        logger.error(`Client certificate expired ${Math.abs(daysLeft)} days ago (${this.clientCertInfo.expiresAt})`)
+      } else if (daysLeft <= 30) {
+        logger.warn(`Client certificate expires in ${daysLeft} days (${this.clientCertInfo.expiresAt})`)
+      } else {
+        logger.info(`Using client certificate ${this.clientCertInfo.subject}, expires ${this.clientCertInfo.expiresAt}`)
+      }
+    }
+
+    const caOptions = this.caCerts ? { ca: this.caCerts } : {}
+    const clientOptions = this.clientCertOptions()
+
+    this.directHttp = new http.Agent({ keepAlive: true })
+    this.directHttps = new https.Agent({ keepAlive: true, ...caOptions })
+    if (clientOptions) {
+      this.dashboardHttps = new https.Agent({ keepAlive: true, ...caOptions, ...clientOptions })
+    }
+
+    if (options.httpProxy) {
+      const proxyUrl = withProxyAuth(options.httpProxy, options.proxyUsername, options.proxyPassword)
+      this.proxiedHttp = new HttpProxyAgent(proxyUrl, { keepAlive: true, ...caOptions })
+      logger.info(`Using HTTP proxy: ${proxyUrl.host}`)
+    }
+
+    if (options.httpsProxy) {
+      const proxyUrl = withProxyAuth(options.httpsProxy, options.proxyUsername, options.proxyPassword)
+      this.proxiedHttps = httpsProxyAgent(proxyUrl, caOptions)
+      if (clientOptions) {
+        this.dashboardProxiedHttps = httpsProxyAgent(proxyUrl, { ...caOptions, ...clientOptions })
+      }
+      logger.info(`Using HTTPS proxy: ${proxyUrl.host}`)
+    }
+  }
+
+  /**
+   * Details of the configured client certificate, or null when mTLS is not configured
+   */
+  get clientCertificate(): ClientCertificateInfo | null {
+    return this.clientCertInfo
+  }
+
+  /**
+   * TLS options (trusted CAs, plus the client certificate for the dashboard origin) to apply
+   * to a connection to targetUrl made outside of these agents
+   */
+  tlsOptions(targetUrl: string): OutboundTlsOptions {
+    return {
+      ...(this.caCerts ? { ca: this.caCerts } : {}),
+      ...(this.isDashboard(targetUrl) ? this.clientCertOptions() ?? {} : {}),
+    }
+  }
+
+  /**
+   * Pick the agent for a URL: proxied unless the host is listed in NO_PROXY, presenting the
+   * client certificate only to the dashboard
+   */
+  agentFor(targetUrl: string): http.Agent {
+    const secure = /^(https|wss):/i.test(targetUrl)
+    const dashboard = secure && this.isDashboard(targetUrl)
+    const proxied = secure ? this.proxiedHttps : this.proxiedHttp
+
+    if (proxied && !shouldBypassProxy(targetUrl, this.options.noProxy)) {
+      return (dashboard ? this.dashboardProxiedHttps : null) ?? proxied
+    }
+
+    if (!secure) return this.directHttp
+    return (dashboard ? this.dashboardHttps : null) ?? this.directHttps
+  }
+
+  private isDashboard(targetUrl: string): boolean {
+    return !!this.options.dashboardUrl && sameOrigin(targetUrl, this.options.dashboardUrl)
+  }
+
+  private clientCertOptions(): Pick<OutboundTlsOptions, 'cert' | 'key' | 'passphrase'> | null {
+    return this.clientCert && this.clientKey
+      ? { cert: this.clientCert, key: this.clientKey, passphrase: this.options.clientKeyPassphrase }
+      : null
+  }
+}
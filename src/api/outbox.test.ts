@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, readFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { AxiosError, AxiosHeaders } from 'axios'
+import { Outbox, isRetryableError, type OutboxEntry } from './outbox.js'
+import type { StatusReport } from './client.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+function report(ip: string): StatusReport {
+  return {
+    ip_address: ip,
+    status: 'online',
+    response_time_ms: 1,
+    check_type: 'ping',
+    checked_at: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+function httpError(status: number): AxiosError {
+  const headers = new AxiosHeaders()
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', { headers }, null, {
+    status,
+    statusText: '',
+    headers: {},
+    config: { headers },
+    data: null,
+  })
+}
+
+let dataDir: string
+
+beforeEach(async () => {
+  vi.clearAllMocks()
+  dataDir = await mkdtemp(path.join(os.tmpdir(), 'vp-outbox-'))
+})
+
+afterEach(async () => {
+  vi.useRealTimers()
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+describe('Outbox', () => {
+  it('persists entries and reloads them in order', async () => {
+    const outbox = new Outbox({ dataDir, maxEntries: 10, maxAgeMs: 60000 }, mockLogger)
+    await outbox.load()
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.1')] })
+    await outbox.enqueue({
+      kind: 'discovery',
+      chunk: {
+        scan_id: 'scan-1',
+        chunk_index: 0,
+        chunk_count: 1,
+        segment_id: 'seg-1',
+        scan_timestamp: '2026-01-01T00:00:00.000Z',
+        devices: [],
+      },
+    })
+
+    const reloaded = new Outbox({ dataDir, maxEntries: 10, maxAgeMs: 60000 }, mockLogger)
+    await reloaded.load()
+    expect(reloaded.size()).toBe(2)
+
+    const delivered: OutboxEntry[] = []
+    await reloaded.flush(async (entry) => { delivered.push(entry) })
+
+    expect(delivered.map(e => e.kind)).toEqual(['status', 'discovery'])
+    expect(delivered[0].kind === 'status' && delivered[0].reports[0].checked_at).toBe('2026-01-01T00:00:00.000Z')
+    expect(reloaded.size()).toBe(0)
+    expect(JSON.parse(await readFile(path.join(dataDir, 'outbox.json'), 'utf-8'))).toEqual([])
+  })
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const outbox = new Outbox({ dataDir, maxEntries: 2, maxAgeMs: 60000 }, mockLogger)
+    await outbox.load()
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.1')] })
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.2')] })
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.3')] })
+
+    const delivered: string[] = []
+    await outbox.flush(async (entry) => {
+      if (entry.kind === 'status') delivered.push(entry.reports[0].ip_address)
+    })
+
+    expect(delivered).toEqual(['10.0.0.2', '10.0.0.3'])
+  })
+
+  it('removes the delivered entry when an enqueue evicts during delivery', async () => {
+    const outbox = new Outbox({ dataDir, maxEntries: 2, maxAgeMs: 60000 }, mockLogger)
+    await outbox.load()
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.1')] })
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.2')] })
+
+    let release!: () => void
+    const pending = new Promise<void>(resolve => { release = resolve })
+    const delivered: string[] = []
+    const flushing = outbox.flush(async (entry) => {
+      if (entry.kind !== 'status') return
+      if (delivered.length === 0) await pending
+      delivered.push(entry.reports[0].ip_address)
+    })
+
+    // Overflow evicts 10.0.0.1 from the front while it is still being delivered
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.3')] })
+    release()
+    await flushing
+
+    expect(delivered).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3'])
+    expect(outbox.size()).toBe(0)
+  })
+
+  it('discards entries older than maxAgeMs on load', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+
+    const outbox = new Outbox({ dataDir, maxEntries: 10, maxAgeMs: 60000 }, mockLogger)
+    await outbox.load()
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.1')] })
+
+    vi.setSystemTime(new Date('2026-01-01T00:05:00Z'))
+    const reloaded = new Outbox({ dataDir, maxEntries: 10, maxAgeMs: 60000 }, mockLogger)
+    await reloaded.load()
+
+    expect(reloaded.size()).toBe(0)
+  })
+
+  it('stops at the first retryable failure and backs off', async () => {
+    const outbox = new Outbox({ dataDir, maxEntries: 10, maxAgeMs: 60000, baseBackoffMs: 60000 }, mockLogger)
+    await outbox.load()
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.1')] })
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.2')] })
+
+    const deliver = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+    expect(await outbox.flush(deliver)).toBe(0)
+    expect(deliver).toHaveBeenCalledTimes(1)
+    expect(outbox.size()).toBe(2)
+
+    // Still within backoff window - no attempt made
+    expect(await outbox.flush(deliver)).toBe(0)
+    expect(deliver).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops entries the dashboard rejects with a client error', async () => {
+    const outbox = new Outbox({ dataDir, maxEntries: 10, maxAgeMs: 60000 }, mockLogger)
+    await outbox.load()
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.1')] })
+    await outbox.enqueue({ kind: 'status', reports: [report('10.0.0.2')] })
+
+    const deliver = vi.fn()
+      .mockRejectedValueOnce(httpError(400))
+      .mockResolvedValueOnce(undefined)
+
+    expect(await outbox.flush(deliver)).toBe(1)
+    expect(outbox.size()).toBe(0)
+  })
+})
+
+describe('isRetryableError', () => {
+  it('retries network errors, server errors, auth failures and rate limits', () => {
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true)
+    expect(isRetryableError(httpError(503))).toBe(true)
+    expect(isRetryableError(httpError(401))).toBe(true)
+    expect(isRetryableError(httpError(429))).toBe(true)
+  })
+
+  it('does not retry payload rejections', () => {
+    expect(isRetryableError(httpError(400))).toBe(false)
+    expect(isRetryableError(httpError(422))).toBe(false)
+  })
+})
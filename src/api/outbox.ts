@@ -0,0 +1,210 @@
+import path from 'path'
+import { randomUUID } from 'crypto'
+import axios from 'axios'
+import type { Logger } from '../utils/logger.js'
+import { readJsonFile, writeJsonFileAtomic } from '../utils/json-file.js'
+import type { StatusReport } from './client.js'
+import type { DiscoveryChunk } from './discovery-upload.js'
+
+export type OutboxPayload =
+  | { kind: 'status'; reports: StatusReport[] }
+  | { kind: 'discovery'; chunk: DiscoveryChunk }
+
+export type OutboxEntry = OutboxPayload & {
+  id: string
+  enqueuedAt: number
+  attempts: number
+}
+
+export interface OutboxOptions {
+  dataDir: string
+  maxEntries: number
+  maxAgeMs: number
+  baseBackoffMs?: number
+  maxBackoffMs?: number
+}
+
+// Client errors that are about the agent rather than the payload, so a retry can succeed
+const RETRYABLE_CLIENT_ERRORS = new Set([401, 403, 408, 429])
+
+/**
+ * Whether a failed delivery is worth retrying.
+ * Other client errors mean the dashboard will never accept the payload.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status
+    return status >= 500 || RETRYABLE_CLIENT_ERRORS.has(status)
+  }
+  return true
+}
+
+/**
+ * Durable on-disk queue for status reports and discovery uploads that failed to reach the dashboard.
+ *
+ * Entries are replayed oldest-first. When the queue exceeds maxEntries, or an entry is older
+ * than maxAgeMs, the oldest entries are evicted first.
+ */
+export class Outbox {
+  private entries: OutboxEntry[] = []
+  private logger: Logger
+  private filePath: string
+  private maxEntries: number
+  private maxAgeMs: number
+  private baseBackoffMs: number
+  private maxBackoffMs: number
+  private consecutiveFailures = 0
+  private nextAttemptAt = 0
+  private flushing = false
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(options: OutboxOptions, logger: Logger) {
+    this.logger = logger
+    this.filePath = path.join(options.dataDir, 'outbox.json')
+    this.maxEntries = options.maxEntries
+    this.maxAgeMs = options.maxAgeMs
+    this.baseBackoffMs = options.baseBackoffMs ?? 5000
+    this.maxBackoffMs = options.maxBackoffMs ?? 300000
+  }
+
+  /**
+   * Load queued entries from disk
+   */
+  async load(): Promise<void> {
+    try {
+      const parsed = await readJsonFile<OutboxEntry[]>(this.filePath)
+      this.entries = Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      this.logger.warn(`Outbox file unreadable, starting empty: ${errorMsg}`)
+      this.entries = []
+    }
+
+    if (this.evict() > 0) {
+      await this.persist()
+    }
+
+    if (this.entries.length > 0) {
+      this.logger.info(`Outbox loaded: ${this.entries.length} pending upload(s)`)
+    }
+  }
+
+  /**
+   * Number of entries waiting to be delivered
+   */
+  size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Queue a payload for later delivery
+   */
+  async enqueue(payload: OutboxPayload): Promise<void> {
+    this.entries.push({
+      ...payload,
+      id: randomUUID(),
+      enqueuedAt: Date.now(),
+      attempts: 0,
+    })
+    this.evict()
+    await this.persist()
+  }
+
+  /**
+   * Replay queued entries in order until one fails or the queue is empty.
+   * Respects exponential backoff after failures. Returns the number of entries delivered.
+   */
+  async flush(deliver: (entry: OutboxEntry) => Promise<void>): Promise<number> {
+    if (this.flushing || this.entries.length === 0 || Date.now() < this.nextAttemptAt) {
+      return 0
+    }
+
+    this.flushing = true
+    let delivered = 0
+
+    try {
+      this.evict()
+
+      while (this.entries.length > 0) {
+        const entry = this.entries[0]
+
+        try {
+          await deliver(entry)
+          // By id: an enqueue during delivery may have evicted entries from the front
+          this.remove(entry)
+          delivered++
+          this.consecutiveFailures = 0
+          this.nextAttemptAt = 0
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+
+          if (!isRetryableError(error)) {
+            this.logger.warn(`Outbox dropping ${entry.kind} entry ${entry.id} rejected by dashboard: ${errorMsg}`)
+            this.remove(entry)
+            continue
+          }
+
+          entry.attempts++
+          this.consecutiveFailures++
+          const delay = Math.min(this.baseBackoffMs * 2 ** (this.consecutiveFailures - 1), this.maxBackoffMs)
+          this.nextAttemptAt = Date.now() + delay
+          this.logger.warn(`Outbox replay failed (${this.entries.length} pending), retrying in ${Math.round(delay / 1000)}s: ${errorMsg}`)
+          break
+        }
+      }
+    } finally {
+      this.flushing = false
+      await this.persist()
+    }
+
+    if (delivered > 0) {
+      this.logger.info(`Outbox replayed ${delivered} upload(s), ${this.entries.length} remaining`)
+    }
+
+    return delivered
+  }
+
+  private remove(entry: OutboxEntry): void {
+    this.entries = this.entries.filter(e => e.id !== entry.id)
+  }
+
+  /**
+   * Drop expired entries, then the oldest entries beyond maxEntries
+   */
+  private evict(): number {
+    const cutoff = Date.now() - this.maxAgeMs
+    const before = this.entries.length
+
+    this.entries = this.entries.filter(e => e.enqueuedAt >= cutoff)
+    const expired = before - this.entries.length
+
+    const overflow = Math.max(0, this.entries.length - this.maxEntries)
+    if (overflow > 0) {
+      this.entries.splice(0, overflow)
+    }
+
+    if (expired > 0 || overflow > 0) {
+      this.logger.warn(`Outbox evicted ${expired} expired and ${overflow} oldest entries`)
+    }
+
+    return expired + overflow
+  }
+
+  /**
+   * Write the queue atomically (temp file + rename), serialized across callers
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.entries)
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await writeJsonFileAtomic(this.filePath, snapshot)
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.error(`Failed to persist outbox: ${errorMsg}`)
+      }
+    })
+
+    return this.writeChain
+  }
+}
@@ -1,14 +1,20 @@
-import { createClient, type SupabaseClient, type RealtimeChannel } from '@supabase/supabase-js'
+import type { Agent } from 'http'
+import { createClient, type SupabaseClient, type SupabaseClientOptions, type RealtimeChannel } from '@supabase/supabase-js'
+import WebSocket from 'ws'
 import type { Logger } from '../utils/logger.js'
+import type { OutboundTlsOptions } from './http-agents.js'
 
 export interface AgentCommand {
   id: string
   agent_id: string
-  command_type: 'scan_now' | 'scan_segment' | 'update_config' | 'restart' | 'upgrade' | 'ping'
+  command_type: 'scan_now' | 'scan_segment' | 'update_config' | 'restart' | 'upgrade' | 'ping' | 'rotate_key'
   payload?: Record<string, unknown>
   status: 'pending' | 'completed' | 'failed'
   created_at: string
   executed_at?: string
+  // Dashboard signature (base64) over the command, and the time after which it must not run
+  signature?: string
+  expires_at?: string
 }
 
 export interface RealtimeClientOptions {
@@ -17,6 +23,26 @@ export interface RealtimeClientOptions {
   agentId: string
   onCommand: (command: AgentCommand) => void
   onConnectionChange?: (connected: boolean) => void
+  // Resolves the outbound agent (proxy) for the realtime websocket URL
+  agentFor?: (url: string) => Agent
+  tls?: OutboundTlsOptions
+}
+
+type RealtimeTransport = NonNullable<NonNullable<SupabaseClientOptions<'public'>['realtime']>['transport']>
+
+/**
+ * Build a WebSocket constructor for Supabase Realtime that connects through the
+ * configured outbound agent and TLS options
+ */
+function createWebSocketTransport(agentFor?: (url: string) => Agent, tls?: OutboundTlsOptions): RealtimeTransport {
+  class OutboundWebSocket extends WebSocket {
+    constructor(address: string | URL, protocols?: string | string[]) {
+      super(address, protocols, { agent: agentFor?.(String(address)), ...tls })
+    }
+  }
+
+  // ws' event types differ from the DOM-style WebSocketLike the realtime client declares
+  return OutboundWebSocket as unknown as RealtimeTransport
 }
 
 /**
@@ -52,6 +78,7 @@ export class RealtimeClient {
             params: {
               eventsPerSecond: 10,
             },
+            transport: createWebSocketTransport(this.options.agentFor, this.options.tls),
           },
         }
       )
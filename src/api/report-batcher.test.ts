@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ReportBatcher } from './report-batcher.js'
+import type { StatusReport } from './client.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+function report(ip: string): StatusReport {
+  return {
+    ip_address: ip,
+    status: 'online',
+    response_time_ms: 5,
+    check_type: 'ping',
+    checked_at: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+function ips(batch: StatusReport[]): string[] {
+  return batch.map(r => r.ip_address)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('ReportBatcher', () => {
+  it('uploads everything collected so far as one batch', async () => {
+    const deliver = vi.fn(async (_reports: StatusReport[]) => {})
+    const batcher = new ReportBatcher({ flushIntervalMs: 5000, maxBatchSize: 10 }, deliver, mockLogger)
+
+    batcher.add(report('10.0.0.1'))
+    batcher.add(report('10.0.0.2'))
+    await batcher.flush()
+    await batcher.flush()
+
+    expect(deliver).toHaveBeenCalledTimes(1)
+    expect(ips(deliver.mock.calls[0][0])).toEqual(['10.0.0.1', '10.0.0.2'])
+  })
+
+  it('flushes as soon as maxBatchSize is reached', async () => {
+    const deliver = vi.fn(async (_reports: StatusReport[]) => {})
+    const batcher = new ReportBatcher({ flushIntervalMs: 5000, maxBatchSize: 2 }, deliver, mockLogger)
+
+    batcher.add(report('10.0.0.1'))
+    expect(deliver).not.toHaveBeenCalled()
+    batcher.add(report('10.0.0.2'))
+    batcher.add(report('10.0.0.3'))
+
+    expect(deliver).toHaveBeenCalledTimes(1)
+    expect(ips(deliver.mock.calls[0][0])).toEqual(['10.0.0.1', '10.0.0.2'])
+  })
+
+  it('flushes every flushIntervalMs until stopped', async () => {
+    const deliver = vi.fn(async (_reports: StatusReport[]) => {})
+    const batcher = new ReportBatcher({ flushIntervalMs: 5000, maxBatchSize: 10 }, deliver, mockLogger)
+    batcher.start()
+
+    batcher.add(report('10.0.0.1'))
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(deliver).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(1)
+    expect(deliver).toHaveBeenCalledTimes(1)
+
+    // Empty intervals upload nothing
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(deliver).toHaveBeenCalledTimes(1)
+
+    batcher.stop()
+    batcher.add(report('10.0.0.2'))
+    await vi.advanceTimersByTimeAsync(10000)
+    expect(deliver).toHaveBeenCalledTimes(1)
+  })
+
+  it('logs and rethrows a failed upload without blocking later batches', async () => {
+    const deliver = vi.fn(async (_reports: StatusReport[]) => {})
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+    const batcher = new ReportBatcher({ flushIntervalMs: 5000, maxBatchSize: 10 }, deliver, mockLogger)
+
+    batcher.add(report('10.0.0.1'))
+    await expect(batcher.flush()).rejects.toThrow('ECONNREFUSED')
+    expect(mockLogger.error).toHaveBeenCalledWith('Status report batch of 1 failed: ECONNREFUSED')
+
+    batcher.add(report('10.0.0.2'))
+    await batcher.flush()
+    expect(ips(deliver.mock.calls[1][0])).toEqual(['10.0.0.2'])
+  })
+
+  it('does not leak a rejection from a timed or size-triggered flush', async () => {
+    const deliver = vi.fn(async (_reports: StatusReport[]) => { throw new Error('ECONNREFUSED') })
+    const batcher = new ReportBatcher({ flushIntervalMs: 5000, maxBatchSize: 2 }, deliver, mockLogger)
+    batcher.start()
+
+    batcher.add(report('10.0.0.1'))
+    batcher.add(report('10.0.0.2'))
+    batcher.add(report('10.0.0.3'))
+    await vi.advanceTimersByTimeAsync(5000)
+    batcher.stop()
+
+    expect(deliver).toHaveBeenCalledTimes(2)
+    expect(mockLogger.error).toHaveBeenCalledTimes(2)
+  })
+})
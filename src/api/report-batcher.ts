@@ -0,0 +1,64 @@
+import type { Logger } from '../utils/logger.js'
+import type { StatusReport } from './client.js'
+
+export interface ReportBatcherOptions {
+  flushIntervalMs: number
+  maxBatchSize: number
+}
+
+/**
+ * Collects status reports produced by independently scheduled checks and uploads them
+ * in batches, either every flushIntervalMs or as soon as maxBatchSize is reached
+ */
+export class ReportBatcher {
+  private logger: Logger
+  private options: ReportBatcherOptions
+  private deliver: (reports: StatusReport[]) => Promise<void>
+  private pending: StatusReport[] = []
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(options: ReportBatcherOptions, deliver: (reports: StatusReport[]) => Promise<void>, logger: Logger) {
+    this.options = options
+    this.deliver = deliver
+    this.logger = logger
+  }
+
+  start(): void {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      this.flush().catch(() => { /* logged in flush */ })
+    }, this.options.flushIntervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  add(report: StatusReport): void {
+    this.pending.push(report)
+    if (this.pending.length >= this.options.maxBatchSize) {
+      this.flush().catch(() => { /* logged in flush */ })
+    }
+  }
+
+  /**
+   * Upload everything collected so far
+   */
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) return
+
+    const batch = this.pending
+    this.pending = []
+
+    try {
+      await this.deliver(batch)
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      this.logger.error(`Status report batch of ${batch.length} failed: ${errorMsg}`)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createHmac, generateKeyPairSync, sign, type KeyObject } from 'crypto'
+import {
+  CommandVerifier,
+  canonicalJson,
+  commandSigningPayload,
+  signRequest,
+  signSocketPayload,
+  type SignedCommand,
+} from './signing.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519')
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString()
+
+function signed(command: SignedCommand, agentId: string, key: KeyObject = privateKey): SignedCommand {
+  const signature = sign(null, Buffer.from(commandSigningPayload(command, agentId)), key).toString('base64')
+  return { ...command, signature }
+}
+
+function upgradeCommand(): SignedCommand {
+  return {
+    id: 'cmd-1',
+    command_type: 'upgrade',
+    payload: { target_version: '1.2.0', download_url: 'https://example.com/agent.zip' },
+    expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+  }
+}
+
+describe('canonicalJson', () => {
+  it('sorts keys recursively and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } })).toBe('{"a":{"d":[2,{"e":0,"f":1}]},"b":1}')
+  })
+})
+
+describe('CommandVerifier', () => {
+  const verifier = new CommandVerifier(publicKeyPem, mockLogger)
+
+  it('accepts a correctly signed command', () => {
+    expect(verifier.verify(signed(upgradeCommand(), 'agent-1'), 'agent-1')).toEqual({ valid: true })
+  })
+
+  it('rejects unsigned commands', () => {
+    expect(verifier.verify(upgradeCommand(), 'agent-1')).toEqual({ valid: false, reason: 'Command is not signed' })
+  })
+
+  it('rejects expired commands', () => {
+    const command = signed({ ...upgradeCommand(), expires_at: '2020-01-01T00:00:00.000Z' }, 'agent-1')
+    const result = verifier.verify(command, 'agent-1')
+    expect(result.valid).toBe(false)
+  })
+
+  it('rejects tampered payloads and commands signed for another agent', () => {
+    const command = signed(upgradeCommand(), 'agent-1')
+    const tampered = { ...command, payload: { ...command.payload, download_url: 'https://evil.example/agent.zip' } }
+
+    expect(verifier.verify(tampered, 'agent-1').valid).toBe(false)
+    expect(verifier.verify(command, 'agent-2').valid).toBe(false)
+  })
+
+  it('rejects signatures from a different key', () => {
+    const other = generateKeyPairSync('ed25519').privateKey
+    expect(verifier.verify(signed(upgradeCommand(), 'agent-1', other), 'agent-1').valid).toBe(false)
+  })
+
+  it('rejects every command when no key is pinned', () => {
+    const unpinned = new CommandVerifier(undefined, mockLogger)
+    expect(unpinned.isEnforced()).toBe(false)
+    expect(unpinned.verify(upgradeCommand(), null).valid).toBe(false)
+    expect(unpinned.verify(signed(upgradeCommand(), 'agent-1'), 'agent-1').valid).toBe(false)
+  })
+
+  it('accepts unsigned commands without a pinned key only when opted in', () => {
+    const unpinned = new CommandVerifier(undefined, mockLogger, true)
+    expect(unpinned.verify(upgradeCommand(), null)).toEqual({ valid: true })
+  })
+})
+
+describe('signRequest', () => {
+  it('signs timestamp, nonce, method, path and body hash with the API key', () => {
+    const headers = signRequest('vp_test_key', 'post', '/api/agent/heartbeat', '{"a":1}', 1700000000, 'nonce-1')
+    const bodyHash = '015abd7f5cc57a2dd94b7590f04ad8084273905ee33ec5cebeae62276a97f862'
+    const expected = createHmac('sha256', 'vp_test_key')
+      .update(`1700000000\nnonce-1\nPOST\n/api/agent/heartbeat\n${bodyHash}`)
+      .digest('hex')
+
+    expect(headers).toEqual({
+      'X-Agent-Timestamp': '1700000000',
+      'X-Agent-Nonce': 'nonce-1',
+      'X-Agent-Signature': `v1=${expected}`,
+    })
+  })
+})
+
+describe('signSocketPayload', () => {
+  it('signs the canonical JSON of the payload with the event as path', () => {
+    const signed = signSocketPayload('key', 'status:report', { reports: [], b: 1 }, 1700000000, 'nonce-1')
+
+    expect(signed).toMatchObject({ reports: [], b: 1 })
+    expect(signed.signature).toEqual(signRequest('key', 'EMIT', 'status:report', '{"b":1,"reports":[]}', 1700000000, 'nonce-1'))
+  })
+})
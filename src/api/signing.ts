@@ -0,0 +1,169 @@
+import * as fs from 'fs'
+import { createHash, createHmac, createPublicKey, randomUUID, verify, type KeyObject } from 'crypto'
+import type { Logger } from '../utils/logger.js'
+
+// Allowed difference between agent and dashboard clocks when checking command expiry
+const CLOCK_SKEW_MS = 60 * 1000
+
+/**
+ * Fields of a dashboard command covered by its signature
+ */
+export interface SignedCommand {
+  id: string
+  command_type: string
+  payload?: Record<string, unknown>
+  expires_at?: string
+  signature?: string
+}
+
+export type CommandVerification = { valid: true } | { valid: false; reason: string }
+
+/**
+ * JSON with object keys sorted recursively, so both sides sign identical bytes
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null'
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+}
+
+/**
+ * The exact bytes the dashboard signs for a command. Binding the agent id stops a
+ * command signed for one agent from being replayed against another.
+ */
+export function commandSigningPayload(command: SignedCommand, agentId: string): string {
+  return canonicalJson({
+    agent_id: agentId,
+    command_id: command.id,
+    command_type: command.command_type,
+    expires_at: command.expires_at,
+    payload: command.payload ?? {},
+  })
+}
+
+/**
+ * Load a public key given either inline PEM or a path to a PEM file
+ */
+export function loadPublicKey(value: string): KeyObject {
+  const pem = value.includes('-----BEGIN') ? value.replace(/\\n/g, '\n') : fs.readFileSync(value, 'utf-8')
+  return createPublicKey(pem)
+}
+
+/**
+ * Verifies dashboard command signatures against the pinned dashboard public key.
+ *
+ * Ed25519, ECDSA (SHA-256) and RSA (SHA-256) keys are supported. Without a pinned key
+ * every command is rejected, unless `allowUnsigned` opts in to accepting them unverified
+ * (for dashboards that do not sign yet).
+ */
+export class CommandVerifier {
+  private publicKey: KeyObject | null
+  private allowUnsigned: boolean
+
+  constructor(publicKey: string | undefined, logger: Logger, allowUnsigned = false) {
+    this.publicKey = publicKey ? loadPublicKey(publicKey) : null
+    this.allowUnsigned = allowUnsigned
+
+    if (this.publicKey) {
+      logger.info(`Command signature verification enabled (${this.publicKey.asymmetricKeyType} key)`)
+    } else if (allowUnsigned) {
+      logger.warn('DASHBOARD_PUBLIC_KEY not set and ALLOW_UNSIGNED_COMMANDS=true - dashboard commands will run without signature verification')
+    } else {
+      logger.warn('DASHBOARD_PUBLIC_KEY not set - dashboard commands will be rejected (set ALLOW_UNSIGNED_COMMANDS=true to accept them unverified)')
+    }
+  }
+
+  isEnforced(): boolean {
+    return this.publicKey !== null
+  }
+
+  verify(command: SignedCommand, agentId: string | null): CommandVerification {
+    if (!this.publicKey) {
+      return this.allowUnsigned
+        ? { valid: true }
+        : { valid: false, reason: 'No dashboard public key pinned to verify commands against' }
+    }
+
+    if (!command.signature) {
+      return { valid: false, reason: 'Command is not signed' }
+    }
+    if (!command.expires_at) {
+      return { valid: false, reason: 'Signed command has no expiry' }
+    }
+
+    const expiresAt = Date.parse(command.expires_at)
+    if (Number.isNaN(expiresAt)) {
+      return { valid: false, reason: 'Command expiry is not a valid timestamp' }
+    }
+    if (Date.now() > expiresAt + CLOCK_SKEW_MS) {
+      return { valid: false, reason: `Command expired at ${command.expires_at}` }
+    }
+
+    if (!agentId) {
+      return { valid: false, reason: 'Agent id not known yet, cannot verify command' }
+    }
+
+    // Ed25519/Ed448 sign the message directly, RSA and ECDSA over a SHA-256 digest
+    const keyType = this.publicKey.asymmetricKeyType
+    const algorithm = keyType === 'ed25519' || keyType === 'ed448' ? null : 'sha256'
+
+    let valid = false
+    try {
+      valid = verify(
+        algorithm,
+        Buffer.from(commandSigningPayload(command, agentId)),
+        this.publicKey,
+        Buffer.from(command.signature, 'base64')
+      )
+    } catch {
+      valid = false
+    }
+
+    return valid ? { valid: true } : { valid: false, reason: 'Command signature is invalid' }
+  }
+}
+
+/**
+ * HMAC headers for an outbound request, keyed by the agent API key.
+ * The dashboard recomputes the signature and rejects stale timestamps or reused nonces.
+ */
+export function signRequest(
+  apiKey: string,
+  method: string,
+  path: string,
+  body: string | Buffer,
+  timestamp: number = Math.floor(Date.now() / 1000),
+  nonce: string = randomUUID()
+): Record<string, string> {
+  const bodyHash = createHash('sha256').update(body).digest('hex')
+  const message = [timestamp, nonce, method.toUpperCase(), path, bodyHash].join('\n')
+  const signature = createHmac('sha256', apiKey).update(message).digest('hex')
+
+  return {
+    'X-Agent-Timestamp': String(timestamp),
+    'X-Agent-Nonce': nonce,
+    'X-Agent-Signature': `v1=${signature}`,
+  }
+}
+
+/**
+ * Socket.IO payload with the same HMAC as signRequest, under `signature`. An emit has no
+ * method, path or raw body, so they are `EMIT`, the event name and the canonical JSON of the
+ * payload, which the dashboard can recompute from the decoded object.
+ */
+export function signSocketPayload<T extends object>(
+  apiKey: string,
+  event: string,
+  payload: T,
+  timestamp?: number,
+  nonce?: string
+): T & { signature: Record<string, string> } {
+  return { ...payload, signature: signRequest(apiKey, 'EMIT', event, canonicalJson(payload), timestamp, nonce) }
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+type Handler = (...args: unknown[]) => void
+
+// Minimal stand-in for a socket.io-client Socket that records emits and answers acks
+const fakeSocket = {
+  connected: false,
+  handlers: new Map<string, Handler>(),
+  emits: [] as { event: string; payload: Record<string, unknown> }[],
+  authResponse: null as unknown,
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, handler)
+    return this
+  },
+  emit(event: string, payload: Record<string, unknown>, ack?: Handler) {
+    this.emits.push({ event, payload })
+    ack?.(this.authResponse)
+    return this
+  },
+  timeout() {
+    return {
+      emitWithAck: async (event: string, payload: Record<string, unknown>) => {
+        this.emits.push({ event, payload })
+        return { success: true, processed: 1, errors: [] }
+      },
+    }
+  },
+  removeAllListeners: vi.fn(),
+  disconnect: vi.fn(),
+  connect: vi.fn(),
+}
+
+vi.mock('socket.io-client', () => ({ io: vi.fn(() => fakeSocket) }))
+
+import { SocketClient, type SocketClientOptions } from './socket.js'
+import { canonicalJson, signRequest } from './signing.js'
+import { PayloadValidator } from './validate.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const API_KEY = 'vp_test1234_abcdefghijklmnopqrstuvwx'
+
+function expectSigned(event: string, payload: Record<string, unknown>, apiKey = API_KEY) {
+  const { signature, ...body } = payload as { signature: Record<string, string> }
+  const expected = signRequest(
+    apiKey, 'EMIT', event, canonicalJson(body), Number(signature['X-Agent-Timestamp']), signature['X-Agent-Nonce']
+  )
+  expect(signature).toEqual(expected)
+}
+
+function socketClient(options: Partial<SocketClientOptions> = {}): SocketClient {
+  return new SocketClient({
+    dashboardUrl: 'https://app.velocitypulse.io',
+    apiKey: API_KEY,
+    version: '1.0.0',
+    hostname: 'host',
+    validator: new PayloadValidator(mockLogger),
+    ...options,
+  }, mockLogger)
+}
+
+async function connectedClient(options: Partial<SocketClientOptions> = {}): Promise<SocketClient> {
+  const client = socketClient(options)
+
+  const connecting = client.connect()
+  fakeSocket.connected = true
+  fakeSocket.handlers.get('connect')!()
+  await connecting
+  return client
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  fakeSocket.connected = false
+  fakeSocket.handlers.clear()
+  fakeSocket.emits = []
+  fakeSocket.authResponse = { agent_id: 'agent-1', agent_name: 'Agent 1', organization_id: 'org-1', segments: [] }
+})
+
+describe('SocketClient', () => {
+  it('HMAC-signs the authenticate emit and every report', async () => {
+    const client = await connectedClient()
+
+    await client.sendStatusReports([{
+      ip_address: '10.0.0.5',
+      status: 'online',
+      response_time_ms: 1,
+      check_type: 'ping',
+      checked_at: '2026-01-01T00:00:00.000Z',
+    }])
+    await client.acknowledgeCommand('cmd-1', 'completed')
+
+    expect(fakeSocket.emits.map(e => e.event)).toEqual(['authenticate', 'status:report', 'command:ack'])
+    for (const { event, payload } of fakeSocket.emits) {
+      expectSigned(event, payload)
+    }
+  })
+
+  it('re-authenticates with a new API key', async () => {
+    const client = await connectedClient()
+    const newKey = 'vp_test1234_zyxwvutsrqponmlkjihgfedc'
+
+    client.setApiKey(newKey)
+    expect(fakeSocket.disconnect).toHaveBeenCalled()
+    expect(fakeSocket.connect).toHaveBeenCalled()
+
+    fakeSocket.handlers.get('connect')!()
+    await client.sendStatusReports([])
+
+    const [auth, report] = fakeSocket.emits.slice(1)
+    expect(auth.payload.apiKey).toBe(newKey)
+    expectSigned('authenticate', auth.payload, newKey)
+    expectSigned('status:report', report.payload, newKey)
+  })
+
+  it('quarantines malformed server events instead of throwing', async () => {
+    const validator = new PayloadValidator(mockLogger)
+    const onSegmentsUpdated = vi.fn()
+    const onCommand = vi.fn()
+    await connectedClient({ validator, onSegmentsUpdated, onCommand })
+    onSegmentsUpdated.mockClear()
+
+    const emit = (event: string, payload: unknown) => fakeSocket.handlers.get(event)!(payload)
+    expect(() => {
+      emit('segments:updated', null)
+      emit('segments:updated', { segments: 'all' })
+      emit('command', null)
+      emit('command', 'scan_now')
+      emit('error', undefined)
+    }).not.toThrow()
+
+    expect(onSegmentsUpdated).not.toHaveBeenCalled()
+    expect(onCommand).not.toHaveBeenCalled()
+    expect(validator.getErrorCount()).toBe(5)
+
+    emit('command', { command_id: 'cmd-1', command_type: 'scan_now' })
+    expect(onCommand).toHaveBeenCalledWith({ command_id: 'cmd-1', command_type: 'scan_now' })
+  })
+
+  it('fails authentication on a missing or malformed ack', async () => {
+    const validator = new PayloadValidator(mockLogger)
+    fakeSocket.authResponse = null
+
+    const connecting = socketClient({ validator }).connect()
+    fakeSocket.connected = true
+    fakeSocket.handlers.get('connect')!()
+
+    await expect(connecting).rejects.toThrow('Invalid authentication response')
+    expect(validator.getErrorCount()).toBe(1)
+  })
+
+  it('reports the server error from an authentication ack', async () => {
+    fakeSocket.authResponse = { code: 'INVALID_KEY', message: 'API key revoked' }
+
+    const connecting = socketClient().connect()
+    fakeSocket.connected = true
+    fakeSocket.handlers.get('connect')!()
+
+    await expect(connecting).rejects.toThrow('API key revoked')
+  })
+})
@@ -1,5 +1,18 @@
+import type { Agent } from 'http'
 import { io, Socket } from 'socket.io-client'
 import type { Logger } from '../utils/logger.js'
+import type { OutboundTlsOptions } from './http-agents.js'
+import { signSocketPayload } from './signing.js'
+import type { PayloadValidator } from './validate.js'
+import type {
+  DiscoveredDevice,
+  DiscoveryChunkInfo,
+  DiscoveryResponse,
+  HeartbeatMetadata,
+  HeartbeatResponse,
+  StatusReport,
+  StatusResponse,
+} from './client.js'
 
 // ==============================================
 // Socket.IO Event Types (matching server)
@@ -11,74 +24,60 @@ interface AgentAuthenticatePayload {
   hostname: string
 }
 
-interface AgentHeartbeatPayload {
+interface AgentHeartbeatPayload extends HeartbeatMetadata {
   version: string
   hostname: string
   uptime_seconds: number
 }
 
 interface AgentStatusReportPayload {
-  reports: Array<{
-    device_id?: string
-    ip_address: string
-    status: 'online' | 'offline' | 'degraded' | 'unknown'
-    response_time_ms: number | null
-    check_type: 'ping' | 'http' | 'tcp'
-    checked_at: string
-    error?: string
-  }>
+  reports: StatusReport[]
 }
 
-interface AgentDiscoveryReportPayload {
+interface AgentDiscoveryReportPayload extends Partial<DiscoveryChunkInfo> {
   segment_id: string
   scan_timestamp: string
-  devices: Array<{
-    ip_address: string
-    mac_address?: string
-    hostname?: string
-    manufacturer?: string
-    device_type?: string
-    discovery_method: 'arp' | 'mdns' | 'ssdp' | 'snmp'
-  }>
+  devices: DiscoveredDevice[]
 }
 
 interface AgentCommandAckPayload {
   command_id: string
   status: 'completed' | 'failed'
+  result?: Record<string, unknown>
   error?: string
   executed_at: string
 }
 
-interface ServerAuthenticatedPayload {
+export interface ServerSegment {
+  id: string
+  name: string
+  cidr: string
+  scan_interval_seconds: number
+  is_enabled: boolean
+  segment_type?: 'local_scan' | 'remote_monitor'
+  gateway_ip?: string
+}
+
+export interface ServerAuthenticatedPayload {
   agent_id: string
   agent_name: string
   organization_id: string
-  segments: Array<{
-    id: string
-    name: string
-    cidr: string
-    scan_interval_seconds: number
-    is_enabled: boolean
-  }>
+  segments: ServerSegment[]
   latest_agent_version?: string
   agent_download_url?: string
   upgrade_available?: boolean
 }
 
 interface ServerSegmentsUpdatedPayload {
-  segments: Array<{
-    id: string
-    name: string
-    cidr: string
-    scan_interval_seconds: number
-    is_enabled: boolean
-  }>
+  segments: ServerSegment[]
 }
 
-interface ServerCommandPayload {
+export interface ServerCommandPayload {
   command_id: string
-  command_type: 'scan_now' | 'scan_segment' | 'update_config' | 'restart' | 'upgrade' | 'ping'
+  command_type: 'scan_now' | 'scan_segment' | 'update_config' | 'restart' | 'upgrade' | 'ping' | 'rotate_key'
   payload?: Record<string, unknown>
+  signature?: string
+  expires_at?: string
 }
 
 interface ServerErrorPayload {
@@ -90,6 +89,17 @@ interface ServerErrorPayload {
 // Socket Client
 // ==============================================
 
+/**
+ * The server didn't acknowledge an emit in time. It may still have processed it,
+ * so the delivery outcome is unknown.
+ */
+export class AckTimeoutError extends Error {
+  constructor(event: string, timeoutMs: number) {
+    super(`${event} not acknowledged within ${timeoutMs}ms`)
+    this.name = 'AckTimeoutError'
+  }
+}
+
 export type SocketConnectionState = 'disconnected' | 'connecting' | 'connected' | 'authenticated'
 
 export interface SocketClientOptions {
@@ -97,8 +107,15 @@ export interface SocketClientOptions {
   apiKey: string
   version: string
   hostname: string
+  ackTimeoutMs?: number
+  // Outbound agent (proxy), trusted CAs and client certificate for the underlying engine.io connection
+  agent?: Agent
+  tls?: OutboundTlsOptions
+  // Checks server events before they are used; rejections count towards the heartbeat's validation errors
+  validator: PayloadValidator
   onSegmentsUpdated?: (segments: ServerSegmentsUpdatedPayload['segments']) => void
-  onCommand?: (command: ServerCommandPayload) => void
+  // Only known to be an object; its fields are validated along with commands from other channels
+  onCommand?: (command: Partial<Record<keyof ServerCommandPayload, unknown>>) => void
   onConnectionStateChange?: (state: SocketConnectionState) => void
 }
 
@@ -110,10 +127,25 @@ export class SocketClient {
   private reconnectAttempts = 0
   private maxReconnectAttempts = 10
   private authPayload: ServerAuthenticatedPayload | null = null
+  private ackTimeoutMs: number
 
   constructor(options: SocketClientOptions, logger: Logger) {
     this.options = options
     this.logger = logger
+    this.ackTimeoutMs = options.ackTimeoutMs ?? 10000
+  }
+
+  /**
+   * Replace the API key. An open session is dropped and re-authenticated with the new key,
+   * so later emits are never signed with a key the session didn't authenticate with.
+   */
+  setApiKey(apiKey: string): void {
+    this.options.apiKey = apiKey
+    if (this.socket) {
+      this.logger.info('Reconnecting socket to authenticate with the new API key')
+      this.socket.disconnect()
+      this.socket.connect()
+    }
   }
 
   /**
@@ -128,6 +160,13 @@ export class SocketClient {
         }
       }
 
+      // Drop any socket left behind by a previous attempt that gave up reconnecting
+      if (this.socket) {
+        this.socket.removeAllListeners()
+        this.socket.disconnect()
+        this.socket = null
+      }
+
       this.setConnectionState('connecting')
 
       // Parse dashboard URL and construct WebSocket URL
@@ -143,6 +182,10 @@ export class SocketClient {
         reconnectionDelay: 1000,
         reconnectionDelayMax: 30000,
         timeout: 20000,
+        // engine.io-client passes these through to ws / xmlhttprequest-ssl in Node,
+        // but types `agent` as string | boolean
+        agent: this.options.agent as unknown as string | undefined,
+        ...this.options.tls,
       })
 
       // Connection events
@@ -158,18 +201,18 @@ export class SocketClient {
           hostname: this.options.hostname,
         }
 
-        this.socket!.emit('authenticate', authPayload, (response: ServerAuthenticatedPayload | ServerErrorPayload) => {
-          if ('code' in response) {
-            // Error response
-            this.logger.error(`Authentication failed: ${response.message}`)
-            reject(new Error(response.message))
+        this.socket!.emit('authenticate', this.sign('authenticate', authPayload), (response: unknown) => {
+          const validation = this.options.validator.authentication(response, 'socket authenticate')
+          if ('error' in validation) {
+            this.logger.error(`Authentication failed: ${validation.error}`)
+            reject(new Error(validation.error))
             this.disconnect()
           } else {
-            // Success response
-            this.logger.info(`Authenticated as ${response.agent_name}`)
+            this.logger.info(`Authenticated as ${validation.auth.agent_name}`)
             this.setConnectionState('authenticated')
-            this.authPayload = response
-            resolve(response)
+            this.authPayload = validation.auth
+            this.options.onSegmentsUpdated?.(validation.auth.segments)
+            resolve(validation.auth)
           }
         })
       })
@@ -185,19 +228,27 @@ export class SocketClient {
         this.logger.warn(`Socket connection error (attempt ${this.reconnectAttempts}): ${error.message}`)
 
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+          this.setConnectionState('disconnected')
           reject(new Error('Max reconnection attempts reached'))
         }
       })
 
       // Server events
-      this.socket.on('segments:updated', (payload: ServerSegmentsUpdatedPayload) => {
-        this.logger.info(`Received segment update: ${payload.segments.length} segments`)
-        this.options.onSegmentsUpdated?.(payload.segments)
+      // Server events run outside socket.io's own error handling, so a malformed payload
+      // must be quarantined here rather than throw
+      this.socket.on('segments:updated', (payload: unknown) => {
+        const event = this.options.validator.eventPayload(payload, 'socket', 'segments:updated')
+        const segments = event && this.options.validator.serverSegments(event.segments, 'socket')
+        if (!segments) return
+        this.logger.info(`Received segment update: ${segments.length} segments`)
+        this.options.onSegmentsUpdated?.(segments)
       })
 
-      this.socket.on('command', (payload: ServerCommandPayload) => {
-        this.logger.info(`Received command: ${payload.command_type}`)
-        this.options.onCommand?.(payload)
+      this.socket.on('command', (payload: unknown) => {
+        const command = this.options.validator.eventPayload(payload, 'socket', 'command')
+        if (!command) return
+        this.logger.info(`Received command: ${String(command.command_type)}`)
+        this.options.onCommand?.(command)
       })
 
       this.socket.on('ping', () => {
@@ -205,8 +256,10 @@ export class SocketClient {
         this.socket?.emit('pong')
       })
 
-      this.socket.on('error', (payload: ServerErrorPayload) => {
-        this.logger.error(`Socket error: ${payload.code} - ${payload.message}`)
+      this.socket.on('error', (payload: unknown) => {
+        const error = this.options.validator.eventPayload(payload, 'socket', 'error') as Partial<ServerErrorPayload> | null
+        if (!error) return
+        this.logger.error(`Socket error: ${error.code} - ${error.message}`)
       })
     })
   }
@@ -238,70 +291,97 @@ export class SocketClient {
   }
 
   /**
-   * Send heartbeat
+   * Send heartbeat, resolving with the server's heartbeat acknowledgement
    */
-  sendHeartbeat(version: string, hostname: string): void {
-    if (!this.isConnected()) {
-      this.logger.debug('Cannot send heartbeat: not connected')
-      return
-    }
-
+  async sendHeartbeat(version: string, hostname: string, metadata: HeartbeatMetadata = {}): Promise<HeartbeatResponse> {
     const payload: AgentHeartbeatPayload = {
       version,
       hostname,
       uptime_seconds: Math.floor(process.uptime()),
+      ...metadata,
     }
 
-    this.socket!.emit('heartbeat', payload)
+    const response = await this.emitWithAck<HeartbeatResponse>('heartbeat', payload)
+    if (!response?.agent_id) {
+      throw new Error('Heartbeat acknowledgement missing agent_id')
+    }
+    return response
   }
 
   /**
    * Send status reports
    */
-  sendStatusReports(reports: AgentStatusReportPayload['reports']): void {
-    if (!this.isConnected()) {
-      this.logger.debug('Cannot send status reports: not connected')
-      return
-    }
-
-    this.socket!.emit('status:report', { reports })
+  async sendStatusReports(reports: StatusReport[]): Promise<StatusResponse> {
+    const payload: AgentStatusReportPayload = { reports }
+    return this.emitWithAck<StatusResponse>('status:report', payload)
   }
 
   /**
    * Send discovery reports
    */
-  sendDiscoveryReport(segmentId: string, devices: AgentDiscoveryReportPayload['devices']): void {
-    if (!this.isConnected()) {
-      this.logger.debug('Cannot send discovery report: not connected')
-      return
-    }
-
+  async sendDiscoveryReport(
+    segmentId: string,
+    devices: DiscoveredDevice[],
+    scanTimestamp: string = new Date().toISOString(),
+    chunk?: DiscoveryChunkInfo
+  ): Promise<DiscoveryResponse> {
     const payload: AgentDiscoveryReportPayload = {
       segment_id: segmentId,
-      scan_timestamp: new Date().toISOString(),
+      scan_timestamp: scanTimestamp,
+      ...chunk,
       devices,
     }
 
-    this.socket!.emit('discovery:report', payload)
+    return this.emitWithAck<DiscoveryResponse>('discovery:report', payload)
   }
 
   /**
    * Acknowledge command execution
    */
-  acknowledgeCommand(commandId: string, status: 'completed' | 'failed', error?: string): void {
-    if (!this.isConnected()) {
-      this.logger.debug('Cannot acknowledge command: not connected')
-      return
-    }
-
+  async acknowledgeCommand(
+    commandId: string,
+    status: 'completed' | 'failed',
+    result?: Record<string, unknown>,
+    error?: string
+  ): Promise<void> {
     const payload: AgentCommandAckPayload = {
       command_id: commandId,
       status,
+      result,
       error,
       executed_at: new Date().toISOString(),
     }
 
-    this.socket!.emit('command:ack', payload)
+    await this.emitWithAck<unknown>('command:ack', payload)
+  }
+
+  /**
+   * Emit an event and wait for the server acknowledgement.
+   * Rejects when not authenticated, with AckTimeoutError on ack timeout, or when the server replies
+   * with an error payload.
+   */
+  private async emitWithAck<T>(event: string, payload: object): Promise<T> {
+    if (!this.isConnected()) {
+      throw new Error(`Cannot send ${event}: not connected`)
+    }
+
+    let response: T | ServerErrorPayload
+    try {
+      response = await this.socket!.timeout(this.ackTimeoutMs).emitWithAck(event, this.sign(event, payload))
+    } catch {
+      throw new AckTimeoutError(event, this.ackTimeoutMs)
+    }
+    if (response && typeof response === 'object' && 'code' in response && 'message' in response) {
+      throw new Error(`${event} rejected: ${response.code} - ${response.message}`)
+    }
+    return response as T
+  }
+
+  /**
+   * HMAC-sign an emit payload with the current API key, like every HTTP request
+   */
+  private sign<T extends object>(event: string, payload: T): T & { signature: Record<string, string> } {
+    return signSocketPayload(this.options.apiKey, event, payload)
   }
 
   /**
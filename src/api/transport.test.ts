@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DashboardTransport } from './transport.js'
+import { AckTimeoutError, type SocketClient } from './socket.js'
+import type { DashboardClient, StatusReport } from './client.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const report: StatusReport = {
+  ip_address: '10.0.0.5',
+  status: 'online',
+  response_time_ms: 1,
+  check_type: 'ping',
+  checked_at: '2026-01-01T00:00:00.000Z',
+}
+
+const heartbeatResponse = { agent_id: 'agent-1', organization_id: 'org-1', segments: [] }
+
+let connected: boolean
+let socket: {
+  isConnected: ReturnType<typeof vi.fn>
+  sendHeartbeat: ReturnType<typeof vi.fn>
+  sendStatusReports: ReturnType<typeof vi.fn>
+  sendDiscoveryReport: ReturnType<typeof vi.fn>
+  acknowledgeCommand: ReturnType<typeof vi.fn>
+}
+let client: {
+  heartbeat: ReturnType<typeof vi.fn>
+  uploadStatusReports: ReturnType<typeof vi.fn>
+  uploadDiscoveredDevices: ReturnType<typeof vi.fn>
+  acknowledgeCommand: ReturnType<typeof vi.fn>
+}
+let transport: DashboardTransport
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  connected = true
+  socket = {
+    isConnected: vi.fn(() => connected),
+    sendHeartbeat: vi.fn().mockResolvedValue(heartbeatResponse),
+    sendStatusReports: vi.fn().mockResolvedValue({ success: true, processed: 1, errors: [] }),
+    sendDiscoveryReport: vi.fn().mockResolvedValue({ success: true, created: 1, updated: 0, unchanged: 0 }),
+    acknowledgeCommand: vi.fn().mockResolvedValue(undefined),
+  }
+  client = {
+    heartbeat: vi.fn().mockResolvedValue(heartbeatResponse),
+    uploadStatusReports: vi.fn().mockResolvedValue({ success: true, processed: 1, errors: [] }),
+    uploadDiscoveredDevices: vi.fn().mockResolvedValue({ success: true, created: 1, updated: 0, unchanged: 0 }),
+    acknowledgeCommand: vi.fn().mockResolvedValue(undefined),
+  }
+  transport = new DashboardTransport(
+    client as unknown as DashboardClient,
+    socket as unknown as SocketClient,
+    mockLogger
+  )
+})
+
+describe('DashboardTransport', () => {
+  it('uses the socket while it is authenticated', async () => {
+    await transport.uploadStatusReports([report])
+
+    expect(transport.getMode()).toBe('socket')
+    expect(socket.sendStatusReports).toHaveBeenCalledWith([report])
+    expect(client.uploadStatusReports).not.toHaveBeenCalled()
+  })
+
+  it('uses HTTP while the socket is down and returns to the socket once it recovers', async () => {
+    connected = false
+    await transport.heartbeat('1.0.0', 'host')
+    expect(transport.getMode()).toBe('http')
+    expect(client.heartbeat).toHaveBeenCalledTimes(1)
+
+    connected = true
+    await transport.heartbeat('1.0.0', 'host')
+    expect(transport.getMode()).toBe('socket')
+    expect(socket.sendHeartbeat).toHaveBeenCalledTimes(1)
+    expect(client.heartbeat).toHaveBeenCalledTimes(1)
+  })
+
+  it('falls back to HTTP when a socket emit fails', async () => {
+    socket.sendStatusReports.mockRejectedValue(new Error('status:report rejected: INTERNAL - boom'))
+
+    const response = await transport.uploadStatusReports([report])
+
+    expect(response.processed).toBe(1)
+    expect(client.uploadStatusReports).toHaveBeenCalledWith([report])
+  })
+
+  it('works without a socket client', async () => {
+    const httpOnly = new DashboardTransport(client as unknown as DashboardClient, null, mockLogger)
+
+    await httpOnly.acknowledgeCommand('cmd-1', true)
+
+    expect(httpOnly.getMode()).toBe('http')
+    expect(client.acknowledgeCommand).toHaveBeenCalledWith('cmd-1', true, undefined, undefined)
+  })
+
+  it('does not re-send status reports over HTTP after an ack timeout', async () => {
+    socket.sendStatusReports.mockRejectedValue(new AckTimeoutError('status:report', 10000))
+
+    await expect(transport.uploadStatusReports([report])).rejects.toBeInstanceOf(AckTimeoutError)
+    expect(client.uploadStatusReports).not.toHaveBeenCalled()
+  })
+
+  it('falls back for idempotent requests after an ack timeout', async () => {
+    socket.sendDiscoveryReport.mockRejectedValue(new AckTimeoutError('discovery:report', 10000))
+    socket.acknowledgeCommand.mockRejectedValue(new AckTimeoutError('command:ack', 10000))
+
+    const chunk = { scan_id: 'scan-1', chunk_index: 0, chunk_count: 1 }
+    await transport.uploadDiscoveredDevices('seg-1', [], '2026-01-01T00:00:00.000Z', chunk)
+    await transport.acknowledgeCommand('cmd-1', false, undefined, 'failed')
+
+    expect(client.uploadDiscoveredDevices).toHaveBeenCalledWith('seg-1', [], '2026-01-01T00:00:00.000Z', chunk)
+    expect(client.acknowledgeCommand).toHaveBeenCalledWith('cmd-1', false, undefined, 'failed')
+  })
+})
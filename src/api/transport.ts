@@ -0,0 +1,125 @@
+import type { Logger } from '../utils/logger.js'
+import type {
+  DashboardClient,
+  DiscoveredDevice,
+  DiscoveryChunkInfo,
+  DiscoveryResponse,
+  HeartbeatMetadata,
+  HeartbeatResponse,
+  StatusReport,
+  StatusResponse,
+} from './client.js'
+import { AckTimeoutError, type SocketClient } from './socket.js'
+
+export type TransportMode = 'socket' | 'http'
+
+/**
+ * Routes dashboard traffic over the Socket.IO connection while it is authenticated,
+ * and falls back to the REST endpoints on DashboardClient whenever it is not.
+ *
+ * An ack timeout doesn't mean the server missed the emit, so only requests that are safe to
+ * repeat (heartbeats, command acks keyed by command id, discovery chunks keyed by scan id and
+ * chunk index) fall back to HTTP after one. Status reports reject with AckTimeoutError instead.
+ */
+export class DashboardTransport {
+  private client: DashboardClient
+  private socket: SocketClient | null
+  private logger: Logger
+
+  constructor(client: DashboardClient, socket: SocketClient | null, logger: Logger) {
+    this.client = client
+    this.socket = socket
+    this.logger = logger
+  }
+
+  /**
+   * Transport that the next request will be attempted on
+   */
+  getMode(): TransportMode {
+    return this.socket?.isConnected() ? 'socket' : 'http'
+  }
+
+  /**
+   * Send heartbeat to dashboard and get assigned segments
+   */
+  async heartbeat(version: string, hostname: string, metadata: HeartbeatMetadata = {}): Promise<HeartbeatResponse> {
+    return this.send(
+      'heartbeat',
+      socket => socket.sendHeartbeat(version, hostname, metadata),
+      () => this.client.heartbeat(version, hostname, metadata),
+      true
+    )
+  }
+
+  /**
+   * Upload device status reports
+   */
+  async uploadStatusReports(reports: StatusReport[]): Promise<StatusResponse> {
+    return this.send(
+      'status report',
+      socket => socket.sendStatusReports(reports),
+      () => this.client.uploadStatusReports(reports),
+      false
+    )
+  }
+
+  /**
+   * Upload discovered devices from network scan
+   */
+  async uploadDiscoveredDevices(
+    segmentId: string,
+    devices: DiscoveredDevice[],
+    scanTimestamp: string = new Date().toISOString(),
+    chunk?: DiscoveryChunkInfo
+  ): Promise<DiscoveryResponse> {
+    return this.send(
+      'discovery report',
+      socket => socket.sendDiscoveryReport(segmentId, devices, scanTimestamp, chunk),
+      () => this.client.uploadDiscoveredDevices(segmentId, devices, scanTimestamp, chunk),
+      true
+    )
+  }
+
+  /**
+   * Acknowledge command execution to the dashboard
+   */
+  async acknowledgeCommand(
+    commandId: string,
+    success: boolean,
+    result?: Record<string, unknown>,
+    error?: string
+  ): Promise<void> {
+    return this.send(
+      'command ack',
+      socket => socket.acknowledgeCommand(commandId, success ? 'completed' : 'failed', result, error),
+      () => this.client.acknowledgeCommand(commandId, success, result, error),
+      true
+    )
+  }
+
+  /**
+   * Try the socket first when authenticated, then fall back to HTTP on failure. After an ack
+   * timeout, only idempotent requests fall back.
+   */
+  private async send<T>(
+    label: string,
+    viaSocket: (socket: SocketClient) => Promise<T>,
+    viaHttp: () => Promise<T>,
+    idempotent: boolean
+  ): Promise<T> {
+    if (this.socket?.isConnected()) {
+      try {
+        return await viaSocket(this.socket)
+      } catch (error) {
+        if (error instanceof AckTimeoutError && !idempotent) {
+          this.logger.warn(`Socket ${label} unacknowledged, not re-sending over HTTP: ${error.message}`)
+          throw error
+        }
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.warn(`Socket ${label} failed, falling back to HTTP: ${errorMsg}`)
+      }
+    }
+
+    return viaHttp()
+  }
+}
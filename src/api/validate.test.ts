@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PayloadValidator } from './validate.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const segment = { id: 'seg-1', name: 'Office', cidr: '10.0.0.0/24', scan_interval_seconds: 300, segment_type: 'local_scan' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('PayloadValidator', () => {
+  it('quarantines bad segments individually and counts them', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const response = validator.heartbeatResponse({
+      success: true,
+      agent_id: 'agent-1',
+      organization_id: 'org-1',
+      segments: [segment, { ...segment, id: 'seg-2', cidr: 'not-a-cidr' }, null],
+    }, 'heartbeat')
+
+    expect(response.segments?.map(s => s.id)).toEqual(['seg-1'])
+    expect(validator.getErrorCount()).toBe(2)
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('"id":"seg-2"'))
+  })
+
+  it('keeps the segment list null when it is missing, instead of clearing assignments', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const response = validator.heartbeatResponse({ agent_id: 'agent-1', organization_id: 'org-1' }, 'heartbeat')
+
+    expect(response.segments).toBeNull()
+    expect(validator.getErrorCount()).toBe(1)
+  })
+
+  it('drops maintenance windows with an invalid schedule', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const response = validator.heartbeatResponse({
+      agent_id: 'agent-1',
+      organization_id: 'org-1',
+      segments: [],
+      maintenance_windows: [
+        { id: 'mw-1', schedule: '0 23 * * 0', duration_minutes: 120, segment_ids: ['seg-1'] },
+        { id: 'mw-2', schedule: '0 24 * * 0', duration_minutes: 120 },
+      ],
+    }, 'heartbeat')
+
+    expect(response.maintenance_windows?.map(w => w.id)).toEqual(['mw-1'])
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('"id":"mw-2"'))
+  })
+
+  it('rejects heartbeats without an agent identity', () => {
+    const validator = new PayloadValidator(mockLogger)
+    expect(() => validator.heartbeatResponse({ segments: [] }, 'heartbeat')).toThrow('Invalid heartbeat response')
+    expect(() => validator.heartbeatResponse('<html>', 'heartbeat')).toThrow('Invalid heartbeat response')
+  })
+
+  it('drops devices with an unknown check type', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const devices = validator.devicesToMonitor([
+      { id: 'd1', ip_address: '10.0.0.1', check_type: 'ping', is_monitored: true },
+      { id: 'd2', ip_address: '10.0.0.2', check_type: 'snmp', is_monitored: true },
+      { id: 'd3', ip_address: '10.0.0.3', check_type: 'tcp', port: 70000, is_monitored: true },
+    ], 'devices')
+
+    expect(devices.map(d => d.id)).toEqual(['d1'])
+    expect(() => validator.devicesToMonitor({ devices: [] }, 'devices')).toThrow('expected an array')
+  })
+
+  it('quarantines invalid or duplicate checks without dropping the device', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const [device] = validator.devicesToMonitor([{
+      id: 'd1',
+      hostname: 'web-1',
+      check_type: 'ping',
+      is_monitored: true,
+      checks: [
+        { id: 'ping', check_type: 'ping' },
+        { id: 'ssh', check_type: 'tcp', port: 22 },
+        { id: 'ssh', check_type: 'tcp', port: 2222 },
+        { id: 'snmp', check_type: 'snmp' },
+        { id: 'wan', check_type: 'ping_quality', ping_count: 10, max_jitter_ms: 20 },
+        { id: 'lossy', check_type: 'ping_quality', max_packet_loss_percent: 'high' },
+      ],
+    }], 'devices')
+
+    expect(device.checks?.map(c => c.port ?? c.check_type)).toEqual(['ping', 22, 'ping_quality'])
+    expect(validator.getErrorCount()).toBe(3)
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('"source":"devices/d1"'))
+  })
+
+  it('bounds ping_quality bursts', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const [device] = validator.devicesToMonitor([{
+      id: 'd1',
+      ip_address: '10.0.0.1',
+      check_type: 'ping',
+      is_monitored: true,
+      checks: [
+        { id: 'wan', check_type: 'ping_quality', ping_count: 100, ping_interval_ms: 1000 },
+        { id: 'flood', check_type: 'ping_quality', ping_count: 100000 },
+        { id: 'slow', check_type: 'ping_quality', ping_interval_ms: 3600000 },
+      ],
+    }], 'devices')
+
+    expect(device.checks?.map(c => c.id)).toEqual(['wan'])
+    expect(validator.getErrorCount()).toBe(2)
+  })
+
+  it('validates HTTP check options', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const [device] = validator.devicesToMonitor([{
+      id: 'd1',
+      hostname: 'api.example.com',
+      check_type: 'http',
+      is_monitored: true,
+      checks: [
+        {
+          id: 'health',
+          check_type: 'http',
+          http_method: 'POST',
+          http_headers: { 'X-Probe': '1' },
+          http_auth: { type: 'bearer', token: 'abc' },
+          expected_status_codes: [200, '3xx', '401-403'],
+          body_regex: '"status":\\s*"up"',
+        },
+        { id: 'bad-status', check_type: 'http', expected_status_codes: ['2xxx'] },
+        { id: 'bad-regex', check_type: 'http', body_regex: '(' },
+        { id: 'bad-auth', check_type: 'http', http_auth: { type: 'basic', username: 'u' } },
+      ],
+    }], 'devices')
+
+    expect(device.checks?.map(c => c.id)).toEqual(['health'])
+    expect(validator.getErrorCount()).toBe(3)
+  })
+
+  it('validates SSL policies and STARTTLS protocols', () => {
+    const validator = new PayloadValidator(mockLogger)
+    const [device] = validator.devicesToMonitor([{
+      id: 'd1',
+      hostname: 'mail.example.com',
+      check_type: 'ssl',
+      is_monitored: true,
+      checks: [
+        { id: 'cert', check_type: 'ssl', ssl_policy: { chain: 'warn', min_protocol: 'TLSv1.3', fingerprints: ['AB:CD'] } },
+        { id: 'bad-action', check_type: 'ssl', ssl_policy: { hostname: 'block' } },
+        { id: 'bad-protocol', check_type: 'ssl', ssl_policy: { min_protocol: 'SSLv3' } },
+        { id: 'smtp', check_type: 'ssl', port: 587, ssl_starttls: 'smtp' },
+        { id: 'bad-starttls', check_type: 'ssl', ssl_starttls: 'xmpp' },
+      ],
+    }], 'devices')
+
+    expect(device.checks?.map(c => c.id)).toEqual(['cert', 'smtp'])
+    expect(validator.getErrorCount()).toBe(3)
+  })
+
+  it('returns the id of invalid commands so they can be acknowledged', () => {
+    const validator = new PayloadValidator(mockLogger)
+
+    expect(validator.command({ id: 'cmd-1', command_type: 'ping', status: 'pending' }, 'socket')).toHaveProperty('command')
+    expect(validator.command({ id: 'cmd-2', command_type: 'format_disk', status: 'pending' }, 'socket')).toEqual({
+      id: 'cmd-2',
+      error: expect.stringContaining('command_type'),
+    })
+  })
+
+  it('never logs command contents', () => {
+    const validator = new PayloadValidator(mockLogger)
+    validator.command({ id: 'cmd-1', command_type: 'rotate_key', status: 'bogus', payload: { new_api_key: 'vp_secret' } }, 'socket')
+
+    expect(vi.mocked(mockLogger.warn).mock.calls[0][0]).not.toContain('vp_secret')
+  })
+})
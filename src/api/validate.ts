@@ -0,0 +1,449 @@
+import type { Logger } from '../utils/logger.js'
+import type {
+  AgentCommand,
+  DeviceCheck,
+  DeviceToMonitor,
+  DiscoveryResponse,
+  HeartbeatResponse,
+  MaintenanceWindow,
+  NetworkSegment,
+  StatusResponse,
+} from './client.js'
+import type { ServerAuthenticatedPayload, ServerSegment } from './socket.js'
+import type { HttpMethod } from '../scanner/http.js'
+import type { SslPolicyAction, TlsProtocol } from '../scanner/ssl.js'
+import type { StartTlsProtocol } from '../scanner/starttls.js'
+import { parseCron } from '../monitor/maintenance.js'
+
+// Returns an error message, or null when the value is acceptable
+type Check = (value: unknown) => string | null
+type Spec = Record<string, Check>
+
+const SEGMENT_TYPES = ['local_scan', 'remote_monitor'] as const satisfies readonly NetworkSegment['segment_type'][]
+const CHECK_TYPES = ['ping', 'ping_quality', 'http', 'tcp', 'ssl', 'dns'] as const satisfies readonly DeviceToMonitor['check_type'][]
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'] as const satisfies readonly HttpMethod[]
+const SSL_POLICY_ACTIONS = ['fail', 'warn', 'ignore'] as const satisfies readonly SslPolicyAction[]
+const TLS_PROTOCOLS = ['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3'] as const satisfies readonly TlsProtocol[]
+const STARTTLS_PROTOCOLS = ['smtp', 'imap', 'pop3', 'ldap', 'ftp', 'postgres'] as const satisfies readonly StartTlsProtocol[]
+const COMMAND_TYPES = [
+  'scan_now', 'scan_segment', 'update_config', 'restart', 'upgrade', 'ping', 'rotate_key',
+] as const satisfies readonly AgentCommand['command_type'][]
+const COMMAND_STATUSES = ['pending', 'completed', 'failed'] as const satisfies readonly AgentCommand['status'][]
+
+// Upper bounds of a ping_quality burst, so one check can't run ping for hours
+const MAX_PING_COUNT = 100
+const MAX_PING_INTERVAL_MS = 5000
+
+const CIDR_PATTERN = /^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const string: Check = v => (typeof v === 'string' && v.length > 0 ? null : 'expected a non-empty string')
+const boolean: Check = v => (typeof v === 'boolean' ? null : 'expected a boolean')
+const object: Check = v => (isObject(v) ? null : 'expected an object')
+const array: Check = v => (Array.isArray(v) ? null : 'expected an array')
+const positiveNumber: Check = v => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? null : 'expected a positive number')
+const nonNegativeNumber: Check = v => (typeof v === 'number' && Number.isFinite(v) && v >= 0 ? null : 'expected a number >= 0')
+const port: Check = v => (Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 65535 ? null : 'expected a port number')
+const cidr: Check = v => (typeof v === 'string' && CIDR_PATTERN.test(v) ? null : 'expected an IPv4 CIDR')
+const stringArray: Check = v => (Array.isArray(v) && v.every(e => typeof e === 'string') ? null : 'expected an array of strings')
+
+const stringRecord: Check = v => (
+  isObject(v) && Object.values(v).every(e => typeof e === 'string') ? null : 'expected an object of strings'
+)
+
+// 200, '2xx' or '200-299'
+const statusCode = (e: unknown): boolean => {
+  if (typeof e === 'number') return Number.isInteger(e) && e >= 100 && e <= 599
+  if (typeof e !== 'string') return false
+  const range = /^(\d{3})\s*-\s*(\d{3})$/.exec(e.trim())
+  return range ? Number(range[1]) <= Number(range[2]) : /^([1-5]xx|\d{3})$/i.test(e.trim())
+}
+const statusCodes: Check = v => (
+  Array.isArray(v) && v.length > 0 && v.every(statusCode) ? null : 'expected status codes like 200, "2xx" or "200-299"'
+)
+
+const regex: Check = v => {
+  if (typeof v !== 'string') return 'expected a regular expression'
+  try {
+    new RegExp(v)
+    return null
+  } catch {
+    return 'invalid regular expression'
+  }
+}
+
+const httpAuth: Check = v => {
+  if (!isObject(v)) return 'expected an object'
+  if (v.type === 'basic') {
+    return typeof v.username === 'string' && typeof v.password === 'string' ? null : 'basic auth needs username and password'
+  }
+  if (v.type === 'bearer') {
+    return string(v.token) ? 'bearer auth needs a token' : null
+  }
+  return 'expected type basic or bearer'
+}
+
+const sslPolicy: Check = v => {
+  if (!isObject(v)) return 'expected an object'
+  const action = optional(oneOf(SSL_POLICY_ACTIONS))
+  const errors = checkSpec(v, {
+    chain: action,
+    hostname: action,
+    protocol: action,
+    min_protocol: optional(oneOf(TLS_PROTOCOLS)),
+    cipher: action,
+    forbidden_ciphers: optional(stringArray),
+    key: action,
+    min_rsa_bits: optional(nonNegativeNumber),
+    min_ec_bits: optional(nonNegativeNumber),
+    signature: action,
+    forbidden_signature_algorithms: optional(stringArray),
+    fingerprint: action,
+    fingerprints: optional(stringArray),
+  })
+  return errors.length > 0 ? errors.join(', ') : null
+}
+
+const cron: Check = v => {
+  if (typeof v !== 'string') return 'expected a cron expression'
+  try {
+    parseCron(v)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'invalid cron expression'
+  }
+}
+
+function oneOf(values: readonly string[]): Check {
+  return v => (typeof v === 'string' && values.includes(v) ? null : `expected one of ${values.join(', ')}`)
+}
+
+function integerBetween(min: number, max: number): Check {
+  return v => (Number.isInteger(v) && (v as number) >= min && (v as number) <= max ? null : `expected an integer from ${min} to ${max}`)
+}
+
+function optional(check: Check): Check {
+  return v => (v === undefined || v === null ? null : check(v))
+}
+
+const segmentSpec: Spec = {
+  id: string,
+  name: string,
+  cidr,
+  scan_interval_seconds: positiveNumber,
+  segment_type: optional(oneOf(SEGMENT_TYPES)),
+  is_auto_registered: optional(boolean),
+  interface_name: optional(string),
+  gateway_ip: optional(string),
+}
+
+const serverSegmentSpec: Spec = {
+  id: string,
+  name: string,
+  cidr,
+  scan_interval_seconds: positiveNumber,
+  is_enabled: optional(boolean),
+  segment_type: optional(oneOf(SEGMENT_TYPES)),
+  gateway_ip: optional(string),
+}
+
+const deviceSpec: Spec = {
+  id: string,
+  ip_address: optional(string),
+  hostname: optional(string),
+  check_type: oneOf(CHECK_TYPES),
+  port: optional(port),
+  url: optional(string),
+  is_monitored: boolean,
+  check_interval_seconds: optional(positiveNumber),
+  ssl_expiry_warn_days: optional(nonNegativeNumber),
+  dns_expected_ip: optional(string),
+  network_segment_id: optional(string),
+  tags: optional(stringArray),
+  parent_device_ids: optional(stringArray),
+  checks: optional(array),
+}
+
+const deviceCheckSpec: Spec = {
+  id: string,
+  check_type: oneOf(CHECK_TYPES),
+  port: optional(port),
+  url: optional(string),
+  interval_seconds: optional(positiveNumber),
+  failure_threshold: optional(nonNegativeNumber),
+  ssl_expiry_warn_days: optional(nonNegativeNumber),
+  ssl_starttls: optional(oneOf(STARTTLS_PROTOCOLS)),
+  ssl_ca: optional(string),
+  ssl_policy: optional(sslPolicy),
+  dns_expected_ip: optional(string),
+  ping_count: optional(integerBetween(1, MAX_PING_COUNT)),
+  ping_interval_ms: optional(integerBetween(1, MAX_PING_INTERVAL_MS)),
+  max_packet_loss_percent: optional(nonNegativeNumber),
+  max_jitter_ms: optional(nonNegativeNumber),
+  http_method: optional(oneOf(HTTP_METHODS)),
+  http_headers: optional(stringRecord),
+  http_body: optional(string),
+  http_auth: optional(httpAuth),
+  max_redirects: optional(nonNegativeNumber),
+  tls_verify: optional(boolean),
+  expected_status_codes: optional(statusCodes),
+  body_contains: optional(string),
+  body_regex: optional(regex),
+  json_path: optional(string),
+  max_response_bytes: optional(positiveNumber),
+  enabled: optional(boolean),
+}
+
+const maintenanceWindowSpec: Spec = {
+  id: string,
+  name: optional(string),
+  schedule: cron,
+  duration_minutes: positiveNumber,
+  timezone: optional(oneOf(['local', 'utc'])),
+  device_ids: optional(stringArray),
+  segment_ids: optional(stringArray),
+  tags: optional(stringArray),
+}
+
+const commandSpec: Spec = {
+  id: string,
+  command_type: oneOf(COMMAND_TYPES),
+  payload: optional(object),
+  status: oneOf(COMMAND_STATUSES),
+  created_at: optional(string),
+  signature: optional(string),
+  expires_at: optional(string),
+}
+
+function checkSpec(value: unknown, spec: Spec): string[] {
+  if (!isObject(value)) {
+    return ['expected an object']
+  }
+  const errors: string[] = []
+  for (const [field, check] of Object.entries(spec)) {
+    const error = check(value[field])
+    if (error) errors.push(`${field}: ${error}`)
+  }
+  return errors
+}
+
+function idOf(value: unknown): string | undefined {
+  return isObject(value) && typeof value.id === 'string' ? value.id : undefined
+}
+
+/**
+ * Heartbeat response with an explicit marker for an unusable segment list
+ */
+export type ValidatedHeartbeat = Omit<HeartbeatResponse, 'segments' | 'pending_commands' | 'maintenance_windows'> & {
+  // null when the dashboard sent no usable list - keep the current assignment
+  segments: NetworkSegment[] | null
+  // Checked one by one with command() so invalid ones can be acknowledged as failed
+  pending_commands?: unknown[]
+  // Undefined when not sent or unusable - keep the current windows
+  maintenance_windows?: MaintenanceWindow[]
+}
+
+export type CommandValidation = { command: AgentCommand } | { id?: string; error: string }
+
+export type AuthenticationValidation = { auth: ServerAuthenticatedPayload } | { error: string }
+
+/**
+ * Runtime validation of everything the dashboard sends.
+ *
+ * Bad list entries are quarantined individually (dropped with a structured warning) so one
+ * malformed segment or device can't take down a loop. Every rejection is counted and the
+ * total is reported in the heartbeat to make protocol drift visible on the dashboard.
+ */
+export class PayloadValidator {
+  private logger: Logger
+  private errorCount = 0
+
+  constructor(logger: Logger) {
+    this.logger = logger
+  }
+
+  /**
+   * Number of validation failures since the agent started
+   */
+  getErrorCount(): number {
+    return this.errorCount
+  }
+
+  /**
+   * Validate a heartbeat response. Throws if the agent identity is missing, since nothing
+   * else in it can be trusted.
+   */
+  heartbeatResponse(data: unknown, source: string): ValidatedHeartbeat {
+    const errors = checkSpec(data, { agent_id: string, organization_id: string })
+    if (errors.length > 0 || !isObject(data)) {
+      this.reject(source, 'heartbeat', errors)
+      throw new Error(`Invalid heartbeat response: ${errors.join('; ')}`)
+    }
+
+    const response = data as unknown as HeartbeatResponse
+    const segments = this.list(data.segments, segmentSpec, source, 'segment') as NetworkSegment[] | null
+
+    let pendingCommands: unknown[] | undefined
+    if (Array.isArray(data.pending_commands)) {
+      pendingCommands = data.pending_commands
+    } else if (data.pending_commands !== undefined && data.pending_commands !== null) {
+      this.reject(source, 'command list', ['expected an array'])
+    }
+
+    const maintenanceWindows = data.maintenance_windows !== undefined && data.maintenance_windows !== null
+      ? this.maintenanceWindows(data.maintenance_windows, source) ?? undefined
+      : undefined
+
+    return {
+      ...response,
+      agent_name: typeof data.agent_name === 'string' ? data.agent_name : '',
+      segments,
+      pending_commands: pendingCommands,
+      maintenance_windows: maintenanceWindows,
+    }
+  }
+
+  /**
+   * Validate maintenance windows (heartbeat or local file). Returns null if the list itself is unusable.
+   */
+  maintenanceWindows(data: unknown, source: string): MaintenanceWindow[] | null {
+    return this.list(data, maintenanceWindowSpec, source, 'maintenance window') as MaintenanceWindow[] | null
+  }
+
+  /**
+   * Validate the ack of the socket `authenticate` emit: the session, or the server's error.
+   * Segments are quarantined individually as in the heartbeat.
+   */
+  authentication(data: unknown, source: string): AuthenticationValidation {
+    if (isObject(data) && typeof data.code === 'string') {
+      return { error: typeof data.message === 'string' ? data.message : data.code }
+    }
+
+    const errors = checkSpec(data, { agent_id: string, organization_id: string })
+    if (errors.length > 0 || !isObject(data)) {
+      this.reject(source, 'authentication', errors)
+      return { error: `Invalid authentication response: ${errors.join('; ')}` }
+    }
+
+    return {
+      auth: {
+        ...data as unknown as ServerAuthenticatedPayload,
+        agent_name: typeof data.agent_name === 'string' ? data.agent_name : '',
+        segments: this.serverSegments(data.segments, source) ?? [],
+      },
+    }
+  }
+
+  /**
+   * Check that a socket event payload is an object before any of its fields are read.
+   * Returns null, counting the rejection, if it isn't.
+   */
+  eventPayload(data: unknown, source: string, event: string): Record<string, unknown> | null {
+    if (!isObject(data)) {
+      this.reject(source, event, ['expected an object'])
+      return null
+    }
+    return data
+  }
+
+  /**
+   * Validate segments pushed over the socket. Returns null if the list itself is unusable.
+   */
+  serverSegments(data: unknown, source: string): ServerSegment[] | null {
+    return this.list(data, serverSegmentSpec, source, 'segment') as ServerSegment[] | null
+  }
+
+  /**
+   * Validate the devices-to-monitor list. Throws if it isn't a list at all.
+   */
+  devicesToMonitor(data: unknown, source: string): DeviceToMonitor[] {
+    const devices = this.list(data, deviceSpec, source, 'device') as DeviceToMonitor[] | null
+    if (!devices) {
+      throw new Error('Invalid devices response: expected an array')
+    }
+
+    // Quarantine bad checks individually so the device's other checks keep running
+    return devices.map(device => {
+      if (!device.checks) return device
+      const checks = (this.list(device.checks, deviceCheckSpec, `${source}/${device.id}`, 'check') ?? []) as DeviceCheck[]
+      const seen = new Set<string>()
+      return {
+        ...device,
+        checks: checks.filter((check, index) => {
+          if (!seen.has(check.id)) {
+            seen.add(check.id)
+            return true
+          }
+          this.reject(`${source}/${device.id}`, 'check', ['id: duplicate check id'], check.id, index)
+          return false
+        }),
+      }
+    })
+  }
+
+  /**
+   * Validate a single command. Invalid commands that still carry an id can be acknowledged as failed.
+   */
+  command(data: unknown, source: string): CommandValidation {
+    const errors = checkSpec(data, commandSpec)
+    if (errors.length > 0) {
+      const id = idOf(data)
+      this.reject(source, 'command', errors, id)
+      return { id, error: `Invalid command: ${errors.join('; ')}` }
+    }
+    return { command: data as unknown as AgentCommand }
+  }
+
+  /**
+   * Normalise counts in an upload response so missing fields can't poison totals
+   */
+  discoveryResponse(data: unknown, source: string): DiscoveryResponse {
+    const counts = { created: 0, updated: 0, unchanged: 0 }
+    if (!isObject(data)) {
+      this.reject(source, 'discovery response', ['expected an object'])
+      return { success: false, ...counts }
+    }
+    for (const key of Object.keys(counts) as (keyof typeof counts)[]) {
+      counts[key] = typeof data[key] === 'number' ? data[key] as number : 0
+    }
+    return { success: data.success !== false, ...counts }
+  }
+
+  statusResponse(data: unknown, source: string): StatusResponse {
+    if (!isObject(data)) {
+      this.reject(source, 'status response', ['expected an object'])
+      return { success: false, processed: 0, errors: [] }
+    }
+    return {
+      success: data.success !== false,
+      processed: typeof data.processed === 'number' ? data.processed : 0,
+      errors: Array.isArray(data.errors) ? data.errors.filter((e): e is string => typeof e === 'string') : [],
+    }
+  }
+
+  /**
+   * Keep the valid entries of a list, quarantining the rest. Returns null if it isn't a list.
+   */
+  private list(data: unknown, spec: Spec, source: string, kind: string): unknown[] | null {
+    if (!Array.isArray(data)) {
+      this.reject(source, `${kind} list`, ['expected an array'])
+      return null
+    }
+
+    return data.filter((entry, index) => {
+      const errors = checkSpec(entry, spec)
+      if (errors.length === 0) return true
+      this.reject(source, kind, errors, idOf(entry), index)
+      return false
+    })
+  }
+
+  private reject(source: string, kind: string, errors: string[], id?: string, index?: number): void {
+    this.errorCount++
+    // Identify the entry but never log its contents - commands can carry credentials
+    this.logger.warn(`Payload validation failed: ${JSON.stringify({ source, kind, id, index, errors })}`)
+  }
+}
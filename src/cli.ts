@@ -0,0 +1,312 @@
+import readline from 'readline'
+import { Writable } from 'stream'
+import axios from 'axios'
+import { getDataDir } from './config.js'
+import { SecretStore } from './utils/secret-store.js'
+import type { HistoryResult, RawPoint, RollupPoint } from './monitor/timeseries.js'
+import type { DeviceSla, SegmentSla } from './monitor/sla.js'
+
+const SECRET_USAGE = `Usage: velocitypulse-agent secret <command>
+
+Commands:
+  set <name> [value]      Store a secret (reads the value from stdin when omitted)
+  rotate <name> [value]   Replace the value of an existing secret
+  delete <name>           Remove a secret
+  list                    List secret names (values are never shown)
+  rotate-key              Re-encrypt all secrets under a newly generated key file
+
+Reference a secret from .env as VP_API_KEY=secret:<name>`
+
+/**
+ * Read a secret value without echoing it, or from piped stdin
+ */
+async function readSecretValue(name: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk))
+    }
+    return Buffer.concat(chunks).toString('utf-8').replace(/\r?\n$/, '')
+  }
+
+  process.stderr.write(`Value for ${name}: `)
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() })
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true })
+  const value = await new Promise<string>(resolve => rl.question('', resolve))
+  rl.close()
+  process.stderr.write('\n')
+  return value
+}
+
+/**
+ * `secret` subcommand: manage the encrypted secret store in DATA_DIR. Returns the exit code.
+ */
+export async function runSecretCommand(args: string[]): Promise<number> {
+  const [command, name, inlineValue] = args
+  const store = new SecretStore(getDataDir())
+
+  try {
+    switch (command) {
+      case 'set':
+      case 'rotate': {
+        if (!name) break
+        if (command === 'rotate' && !store.has(name)) {
+          console.error(`Secret "${name}" does not exist`)
+          return 1
+        }
+        const value = inlineValue ?? await readSecretValue(name)
+        if (!value) {
+          console.error('Secret value must not be empty')
+          return 1
+        }
+        store.set(name, value)
+        console.log(`Secret "${name}" ${command === 'rotate' ? 'rotated' : 'stored'}`)
+        return 0
+      }
+
+      case 'delete': {
+        if (!name) break
+        if (!store.delete(name)) {
+          console.error(`Secret "${name}" does not exist`)
+          return 1
+        }
+        console.log(`Secret "${name}" deleted`)
+        return 0
+      }
+
+      case 'list': {
+        const secrets = store.list()
+        if (secrets.length === 0) {
+          console.log('No secrets stored')
+        }
+        for (const secret of secrets) {
+          console.log(`${secret.name}\t(updated ${secret.updatedAt})`)
+        }
+        return 0
+      }
+
+      case 'rotate-key': {
+        const count = store.rotateKey()
+        console.log(`Secret store key rotated, ${count} secret(s) re-encrypted`)
+        return 0
+      }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`Secret command failed: ${errorMsg}`)
+    return 1
+  }
+
+  console.error(SECRET_USAGE)
+  return 1
+}
+
+const HISTORY_USAGE = `Usage: velocitypulse-agent history <key> [options]
+
+Shows check history from the running agent's local store.
+
+<key> is a discovered device IP, a dashboard device id, or <device id>:<check id>
+
+Options:
+  --from <time>         Start: ISO date, epoch ms, or an age like 30m, 6h, 7d (default: 6h)
+  --to <time>           End, same formats (default: now)
+  --resolution <res>    auto, raw, 5m or 1h (default: auto)`
+
+const AGE_UNITS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }
+
+/**
+ * Parse an ISO date, epoch ms, or an age like `6h` (meaning that long ago)
+ */
+function parseCliTime(value: string, now: number): number {
+  const age = /^(\d+)([mhd])$/.exec(value)
+  if (age) return now - Number(age[1]) * AGE_UNITS[age[2]]
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+}
+
+/**
+ * Parse `--name value` pairs, or return null on an unknown or incomplete option
+ */
+function parseOptions(args: string[], allowed: string[]): Record<string, string> | null {
+  const options: Record<string, string> = {}
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i].replace(/^--/, '')
+    if (!args[i].startsWith('--') || !allowed.includes(name) || args[i + 1] === undefined) {
+      return null
+    }
+    options[name] = args[i + 1]
+  }
+  return options
+}
+
+function formatMs(value: number | null): string {
+  return value === null ? '-' : `${value}ms`
+}
+
+/**
+ * `history` subcommand: query the running agent's UI server. Returns the exit code.
+ */
+export async function runHistoryCommand(args: string[]): Promise<number> {
+  const [key, ...rest] = args
+  if (!key || key.startsWith('--')) {
+    console.error(HISTORY_USAGE)
+    return 1
+  }
+
+  const options = parseOptions(rest, ['from', 'to', 'resolution'])
+  if (!options) {
+    console.error(HISTORY_USAGE)
+    return 1
+  }
+
+  const now = Date.now()
+  const to = options.to ? parseCliTime(options.to, now) : now
+  const from = parseCliTime(options.from ?? '6h', now)
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    console.error('Invalid --from or --to time')
+    return 1
+  }
+
+  const port = parseInt(process.env.AGENT_UI_PORT || '3001', 10)
+  try {
+    const response = await axios.get<HistoryResult>(`http://127.0.0.1:${port}/api/history`, {
+      params: { key, from, to, resolution: options.resolution ?? 'auto' },
+      timeout: 30000,
+      proxy: false, // never send a local request through HTTP(S)_PROXY
+    })
+    const result = response.data
+
+    console.log(`${result.key} - ${result.points.length} point(s) at ${result.resolution} resolution`)
+    if (result.resolution === 'raw') {
+      for (const point of result.points as RawPoint[]) {
+        const maintenance = point.in_maintenance ? '\t(maintenance)' : ''
+        console.log(`${new Date(point.t).toISOString()}\t${point.status}\t${formatMs(point.response_time_ms)}${maintenance}`)
+      }
+    } else {
+      console.log('start\tavailability\tmin\tavg\tmax\tchecks')
+      for (const point of result.points as RollupPoint[]) {
+        const availability = point.availability === null ? '-' : `${(point.availability * 100).toFixed(2)}%`
+        console.log(
+          `${new Date(point.t).toISOString()}\t${availability}\t${formatMs(point.min_ms)}\t` +
+          `${formatMs(point.avg_ms)}\t${formatMs(point.max_ms)}\t${point.count}`
+        )
+      }
+    }
+    return 0
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const data = error.response.data as { error?: string }
+      console.error(`History query failed: ${data.error ?? error.message}`)
+    } else {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Could not reach the agent on port ${port}: ${errorMsg}`)
+    }
+    return 1
+  }
+}
+
+const SLA_USAGE = `Usage: velocitypulse-agent sla <device> [options]
+       velocitypulse-agent sla --segment <segment id> [options]
+
+Shows uptime, outages, MTTR and MTBF from the running agent's local history.
+Time in maintenance windows is excluded.
+
+<device> is a discovered device IP or a dashboard device id
+
+Options:
+  --from <time>         Start: ISO date, epoch ms, or an age like 30m, 6h, 7d (default: 30d)
+  --to <time>           End, same formats (default: now)
+  --month <YYYY-MM>     A calendar month in local time, instead of --from/--to`
+
+/**
+ * Format a duration like `2d 3h`, `14m 5s`
+ */
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '-'
+  const units: [string, number][] = [['d', 86400000], ['h', 3600000], ['m', 60000], ['s', 1000]]
+  const parts: string[] = []
+  let rest = ms
+  for (const [unit, size] of units) {
+    if (rest >= size || (parts.length === 0 && unit === 's')) {
+      parts.push(`${Math.floor(rest / size)}${unit}`)
+      rest %= size
+    }
+    if (parts.length === 2) break
+  }
+  return parts.join(' ')
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : `${value.toFixed(3)}%`
+}
+
+/**
+ * `sla` subcommand: query the running agent's UI server. Returns the exit code.
+ */
+export async function runSlaCommand(args: string[]): Promise<number> {
+  const segment = args[0] === '--segment' ? args[1] : undefined
+  const device = segment === undefined ? args[0] : undefined
+  const options = parseOptions(args.slice(segment === undefined ? 1 : 2), ['from', 'to', 'month'])
+  if ((!device && !segment) || device?.startsWith('--') || !options) {
+    console.error(SLA_USAGE)
+    return 1
+  }
+
+  const now = Date.now()
+  let from: number
+  let to: number
+  if (options.month) {
+    const month = /^(\d{4})-(\d{2})$/.exec(options.month)
+    if (!month || options.from || options.to) {
+      console.error(SLA_USAGE)
+      return 1
+    }
+    from = new Date(Number(month[1]), Number(month[2]) - 1, 1).getTime()
+    to = Math.min(new Date(Number(month[1]), Number(month[2]), 1).getTime(), now)
+  } else {
+    to = options.to ? parseCliTime(options.to, now) : now
+    from = parseCliTime(options.from ?? '30d', now)
+  }
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    console.error('Invalid --from or --to time')
+    return 1
+  }
+
+  const port = parseInt(process.env.AGENT_UI_PORT || '3001', 10)
+  try {
+    const response = await axios.get<DeviceSla | SegmentSla>(`http://127.0.0.1:${port}/api/sla`, {
+      params: { device, segment, from, to },
+      timeout: 60000,
+      proxy: false, // never send a local request through HTTP(S)_PROXY
+    })
+    const report = response.data
+
+    const name = 'segment_id' in report ? `Segment ${report.segment_id}` : report.key
+    console.log(`${name}: ${new Date(report.from).toISOString()} - ${new Date(report.to).toISOString()}`)
+    console.log(`Uptime       ${formatPercent(report.uptime_percent)}`)
+    console.log(`Downtime     ${formatDuration(report.downtime_ms)}`)
+    console.log(`Outages      ${report.outages}`)
+    console.log(`MTTR         ${formatDuration(report.mttr_ms)}`)
+    console.log(`MTBF         ${formatDuration(report.mtbf_ms)}`)
+    console.log(`Maintenance  ${formatDuration(report.maintenance_ms)}`)
+
+    if ('segment_id' in report) {
+      console.log('\ndevice\tuptime\toutages\tmttr\tmtbf')
+      for (const entry of report.devices) {
+        console.log(
+          `${entry.key}\t${formatPercent(entry.uptime_percent)}\t${entry.outages}\t` +
+          `${formatDuration(entry.mttr_ms)}\t${formatDuration(entry.mtbf_ms)}`
+        )
+      }
+    }
+    return 0
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const data = error.response.data as { error?: string }
+      console.error(`SLA query failed: ${data.error ?? error.message}`)
+    } else {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Could not reach the agent on port ${port}: ${errorMsg}`)
+    }
+    return 1
+  }
+}
@@ -1,4 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { apiKeyFingerprint, storeRotatedApiKey } from './utils/config-store.js'
+import { SecretStore } from './utils/secret-store.js'
 
 // Mock dotenv so it doesn't load a real .env file during tests
 vi.mock('dotenv', () => ({
@@ -19,6 +24,10 @@ describe('loadConfig', () => {
     delete process.env.DASHBOARD_URL
     delete process.env.VP_API_KEY
     delete process.env.AGENT_API_KEY
+    delete process.env.DATA_DIR
+    for (const name of ['HTTP_PROXY', 'http_proxy', 'HTTPS_PROXY', 'https_proxy', 'NO_PROXY', 'no_proxy']) {
+      delete process.env[name]
+    }
     // Reset module cache so serverEnvCache doesn't persist
     vi.resetModules()
   })
@@ -47,11 +56,33 @@ describe('loadConfig', () => {
     expect(config.statusFailureThreshold).toBe(2)
     expect(config.logLevel).toBe('info')
     expect(config.logDir).toBe('./logs')
+    expect(config.dataDir).toBe('./data')
     expect(config.enableRealtime).toBe(true)
+    expect(config.enableSocket).toBe(true)
     expect(config.enableAutoScan).toBe(true)
     expect(config.autoScanInterval).toBe(300)
     expect(config.enableAutoUpgrade).toBe(false)
+    expect(config.allowUnsignedCommands).toBe(false)
+    expect(config.discoveryGzip).toBe(false)
     expect(config.autoUpgradeOnMinor).toBe(true)
+    expect(config.outboxMaxEntries).toBe(1000)
+    expect(config.outboxMaxAgeHours).toBe(24)
+    expect(config.httpsProxy).toBeUndefined()
+    expect(config.caBundlePath).toBeUndefined()
+    expect(config.tlsClientCert).toBeUndefined()
+  })
+
+  it('reads proxy settings from upper or lower case env vars', () => {
+    process.env.VELOCITYPULSE_URL = 'https://app.velocitypulse.io'
+    process.env.VP_API_KEY = 'test-api-key'
+    process.env.https_proxy = 'http://proxy.corp.local:3128'
+    process.env.NO_PROXY = 'localhost,.corp.local'
+    process.env.CA_BUNDLE_PATH = '/etc/ssl/corp-root.pem'
+
+    const config = loadConfig()
+    expect(config.httpsProxy).toBe('http://proxy.corp.local:3128')
+    expect(config.noProxy).toBe('localhost,.corp.local')
+    expect(config.caBundlePath).toBe('/etc/ssl/corp-root.pem')
   })
 
   it('removes trailing slash from dashboard URL', () => {
@@ -111,11 +142,49 @@ describe('loadConfig', () => {
     process.env.LOG_LEVEL = 'debug'
     process.env.ENABLE_AUTO_UPGRADE = 'true'
     process.env.ENABLE_REALTIME = 'false'
+    process.env.ENABLE_SOCKET = 'false'
 
     const config = loadConfig()
     expect(config.agentName).toBe('My Custom Agent')
     expect(config.logLevel).toBe('debug')
     expect(config.enableAutoUpgrade).toBe(true)
     expect(config.enableRealtime).toBe(false)
+    expect(config.enableSocket).toBe(false)
+  })
+
+  it('uses a rotated API key only while the configured key is unchanged', async () => {
+    const dataDir = mkdtempSync(path.join(os.tmpdir(), 'vp-config-'))
+    process.env.VELOCITYPULSE_URL = 'https://app.velocitypulse.io'
+    process.env.VP_API_KEY = 'original-key'
+    process.env.DATA_DIR = dataDir
+
+    try {
+      await storeRotatedApiKey(dataDir, 'rotated-key', apiKeyFingerprint('original-key'))
+      expect(loadConfig().apiKey).toBe('rotated-key')
+
+      // Operator installed a new key by hand - it wins over the stored rotation
+      process.env.VP_API_KEY = 'replacement-key'
+      expect(loadConfig().apiKey).toBe('replacement-key')
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('resolves secret: references from the secret store', () => {
+    const dataDir = mkdtempSync(path.join(os.tmpdir(), 'vp-config-'))
+    process.env.VELOCITYPULSE_URL = 'https://app.velocitypulse.io'
+    process.env.VP_API_KEY = 'secret:api_key'
+    process.env.PROXY_PASSWORD = 'secret:missing'
+    process.env.DATA_DIR = dataDir
+
+    try {
+      new SecretStore(dataDir).set('api_key', 'vp_acme_aBcDeFgHiJkLmNoPqRsT1234')
+      expect(() => loadConfig()).toThrow('PROXY_PASSWORD references secret "missing"')
+
+      delete process.env.PROXY_PASSWORD
+      expect(loadConfig().apiKey).toBe('vp_acme_aBcDeFgHiJkLmNoPqRsT1234')
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true })
+    }
   })
 })
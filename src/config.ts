@@ -1,4 +1,7 @@
 import { config as dotenvConfig } from 'dotenv'
+import { apiKeyFingerprint, resolveApiKey } from './utils/config-store.js'
+import { SecretStore, SECRET_REF_PREFIX } from './utils/secret-store.js'
+import { registerSecret } from './utils/logger.js'
 
 // Load .env file
 dotenvConfig()
@@ -6,36 +9,108 @@ dotenvConfig()
 export interface Config {
   dashboardUrl: string
   apiKey: string
+  apiKeyFingerprint: string // SHA-256 of the configured VP_API_KEY (a rotated key may be in use)
   agentName: string
   heartbeatInterval: number
   statusCheckInterval: number
   statusFailureThreshold: number
+  statusRecoveryThreshold: number // consecutive successes (beyond the first) before offline recovers
+  flapWindow: number // ms over which state changes are counted
+  flapThreshold: number // flap score (%) at which a device is marked flapping
+  maintenanceWindowsFile?: string // JSON list of local maintenance windows
+  latencyAnomalyFactor: number // latency above baseline times this is anomalous
+  latencyAnomalyCount: number // consecutive anomalies before degraded
+  latencyRelearnCount: number // consecutive anomalies before the baseline is relearned, 0 = never
+  // Local check history
+  historyRawRetentionHours: number
+  historyRollupRetentionDays: number
+  checkConcurrency: number // max device checks running at once
+  checkJitter: number // random delay added to each check, as a fraction of its interval
+  checkRateLimit: number // max probes sent per second by checks and discovery together, 0 = unlimited
   logLevel: 'debug' | 'info' | 'warn' | 'error'
   logDir: string
+  dataDir: string // Persistent agent state (outbox, ledgers, stores)
   // Supabase Realtime settings (can be provided via env or heartbeat response)
   supabaseUrl?: string
   supabaseAnonKey?: string
   enableRealtime: boolean
+  // Socket.IO transport (preferred over REST when authenticated)
+  enableSocket: boolean
   // Auto-scan settings
   enableAutoScan: boolean
   autoScanInterval: number // seconds between auto-scans
   // Auto-upgrade settings
   enableAutoUpgrade: boolean // Default: false (opt-in)
   autoUpgradeOnMinor: boolean // Default: true (auto-upgrade minor/patch versions)
+  // Outbound proxy and trust settings
+  httpProxy?: string
+  httpsProxy?: string
+  noProxy?: string
+  proxyUsername?: string
+  proxyPassword?: string
+  caBundlePath?: string // Extra CA certificates (PEM) trusted in addition to the system store
+  // Mutual TLS client certificate (PEM paths)
+  tlsClientCert?: string
+  tlsClientKey?: string
+  tlsClientKeyPassphrase?: string
+  // Pinned dashboard public key (PEM or path) used to verify command signatures
+  dashboardPublicKey?: string
+  allowUnsignedCommands: boolean // Default: false; accept commands unverified when no key is pinned
+  // Discovery upload settings
+  discoveryChunkSize: number // devices per upload request
+  discoveryGzip: boolean
+  // Offline outbox settings
+  outboxMaxEntries: number
+  outboxMaxAgeHours: number
+  // Monitoring state persistence
+  stateSnapshotInterval: number // ms between snapshots
+  stateMaxAgeHours: number // restored entries older than this are dropped
 }
 
 /**
  * Validate API key format: vp_{org_prefix}_{random}
  */
-function validateApiKey(key: string): boolean {
+export function validateApiKey(key: string): boolean {
   const pattern = /^vp_[a-zA-Z0-9]+_[a-zA-Z0-9]{20,}$/
   return pattern.test(key)
 }
 
+/**
+ * Directory for persistent agent state, including the secret store
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || './data'
+}
+
+/**
+ * Read a credential from the environment. `secret:<name>` values are resolved from the
+ * encrypted secret store, and every credential is registered for log redaction.
+ */
+function readSecretEnv(secrets: SecretStore, ...names: string[]): string | undefined {
+  const name = names.find(n => process.env[n])
+  if (!name) return undefined
+
+  let value = process.env[name]!
+  if (value.startsWith(SECRET_REF_PREFIX)) {
+    const secretName = value.slice(SECRET_REF_PREFIX.length)
+    const resolved = secrets.get(secretName)
+    if (resolved === undefined) {
+      throw new Error(`${name} references secret "${secretName}", which is not in the secret store`)
+    }
+    value = resolved
+  }
+
+  registerSecret(value)
+  return value
+}
+
 export function loadConfig(): Config {
+  const dataDir = getDataDir()
+  const secrets = new SecretStore(dataDir)
+
   // Support both new and legacy environment variable names
   const dashboardUrl = process.env.VELOCITYPULSE_URL || process.env.DASHBOARD_URL
-  const apiKey = process.env.VP_API_KEY || process.env.AGENT_API_KEY
+  const apiKey = readSecretEnv(secrets, 'VP_API_KEY', 'AGENT_API_KEY')
 
   if (!dashboardUrl) {
     throw new Error('VELOCITYPULSE_URL is required (or DASHBOARD_URL for legacy compatibility)')
@@ -50,24 +125,67 @@ export function loadConfig(): Config {
     throw new Error('Invalid VP_API_KEY format. Expected: vp_{org_prefix}_{random_24_chars}')
   }
 
+  const activeApiKey = resolveApiKey(apiKey, dataDir) // Prefer a key installed by rotate_key
+  registerSecret(activeApiKey)
+
   return {
     dashboardUrl: dashboardUrl.replace(/\/$/, ''), // Remove trailing slash
-    apiKey,
+    apiKey: activeApiKey,
+    apiKeyFingerprint: apiKeyFingerprint(apiKey),
     agentName: process.env.AGENT_NAME || 'VelocityPulse Agent',
     heartbeatInterval: parseInt(process.env.HEARTBEAT_INTERVAL || '60', 10) * 1000,
     statusCheckInterval: parseInt(process.env.STATUS_CHECK_INTERVAL || '30', 10) * 1000,
     statusFailureThreshold: Math.max(0, parseInt(process.env.STATUS_FAILURE_THRESHOLD || '2', 10)),
+    statusRecoveryThreshold: Math.max(0, parseInt(process.env.STATUS_RECOVERY_THRESHOLD || '1', 10)),
+    flapWindow: Math.max(60, parseInt(process.env.FLAP_WINDOW || '900', 10)) * 1000,
+    flapThreshold: Math.min(100, Math.max(1, parseInt(process.env.FLAP_THRESHOLD || '50', 10))),
+    maintenanceWindowsFile: process.env.MAINTENANCE_WINDOWS_FILE || undefined,
+    latencyAnomalyFactor: Math.max(1.1, parseFloat(process.env.LATENCY_ANOMALY_FACTOR || '3')),
+    latencyAnomalyCount: Math.max(1, parseInt(process.env.LATENCY_ANOMALY_COUNT || '3', 10)),
+    latencyRelearnCount: Math.max(0, parseInt(process.env.LATENCY_RELEARN_COUNT || '120', 10)),
+    // Local check history
+    historyRawRetentionHours: Math.max(1, parseInt(process.env.HISTORY_RAW_RETENTION_HOURS || '24', 10)),
+    historyRollupRetentionDays: Math.max(1, parseInt(process.env.HISTORY_ROLLUP_RETENTION_DAYS || '30', 10)),
+    checkConcurrency: Math.max(1, parseInt(process.env.CHECK_CONCURRENCY || '16', 10)),
+    checkJitter: Math.min(50, Math.max(0, parseInt(process.env.CHECK_JITTER || '0', 10))) / 100,
+    checkRateLimit: Math.max(0, parseFloat(process.env.CHECK_RATE_LIMIT || '0')),
     logLevel: (process.env.LOG_LEVEL as Config['logLevel']) || 'info',
     logDir: process.env.LOG_DIR || './logs',
+    dataDir,
     // Supabase Realtime settings (optional - can be provided via heartbeat)
     supabaseUrl: process.env.SUPABASE_URL,
-    supabaseAnonKey: process.env.SUPABASE_ANON_KEY,
+    supabaseAnonKey: readSecretEnv(secrets, 'SUPABASE_ANON_KEY'),
     enableRealtime: process.env.ENABLE_REALTIME !== 'false', // Default: true
+    // Socket.IO transport
+    enableSocket: process.env.ENABLE_SOCKET !== 'false', // Default: true
     // Auto-scan settings
     enableAutoScan: process.env.ENABLE_AUTO_SCAN !== 'false', // Default: true
     autoScanInterval: parseInt(process.env.AUTO_SCAN_INTERVAL || '300', 10), // Default: 5 minutes
     // Auto-upgrade settings
     enableAutoUpgrade: process.env.ENABLE_AUTO_UPGRADE === 'true', // Default: false (opt-in)
     autoUpgradeOnMinor: process.env.AUTO_UPGRADE_ON_MINOR !== 'false', // Default: true
+    // Outbound proxy and trust settings (standard lowercase variants are honoured too)
+    httpProxy: readSecretEnv(secrets, 'HTTP_PROXY', 'http_proxy'),
+    httpsProxy: readSecretEnv(secrets, 'HTTPS_PROXY', 'https_proxy'),
+    noProxy: process.env.NO_PROXY || process.env.no_proxy || undefined,
+    proxyUsername: process.env.PROXY_USERNAME || undefined,
+    proxyPassword: readSecretEnv(secrets, 'PROXY_PASSWORD'),
+    caBundlePath: process.env.CA_BUNDLE_PATH || undefined,
+    // Mutual TLS client certificate
+    tlsClientCert: process.env.TLS_CLIENT_CERT || undefined,
+    tlsClientKey: process.env.TLS_CLIENT_KEY || undefined,
+    tlsClientKeyPassphrase: readSecretEnv(secrets, 'TLS_CLIENT_KEY_PASSPHRASE'),
+    // Command signing
+    dashboardPublicKey: process.env.DASHBOARD_PUBLIC_KEY || undefined,
+    allowUnsignedCommands: process.env.ALLOW_UNSIGNED_COMMANDS === 'true', // Default: false (opt-in)
+    // Discovery upload settings
+    discoveryChunkSize: Math.max(1, parseInt(process.env.DISCOVERY_CHUNK_SIZE || '250', 10)),
+    discoveryGzip: process.env.DISCOVERY_GZIP === 'true', // Default: false (opt-in, needs dashboard support)
+    // Offline outbox settings
+    outboxMaxEntries: Math.max(1, parseInt(process.env.OUTBOX_MAX_ENTRIES || '1000', 10)),
+    outboxMaxAgeHours: Math.max(1, parseInt(process.env.OUTBOX_MAX_AGE_HOURS || '24', 10)),
+    // Monitoring state persistence
+    stateSnapshotInterval: Math.max(5, parseInt(process.env.STATE_SNAPSHOT_INTERVAL || '60', 10)) * 1000,
+    stateMaxAgeHours: Math.max(1, parseInt(process.env.STATE_MAX_AGE_HOURS || '24', 10)),
   }
 }
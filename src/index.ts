@@ -1,18 +1,37 @@
 import os from 'os'
-import { loadConfig } from './config.js'
-import { createLogger } from './utils/logger.js'
+import { loadConfig, validateApiKey } from './config.js'
+import { createLogger, registerSecret } from './utils/logger.js'
 import { VERSION, PRODUCT_NAME } from './utils/version.js'
-import { DashboardClient, type NetworkSegment, type DeviceToMonitor, type StatusReport, type AgentCommand } from './api/client.js'
-import { checkSsl } from './scanner/ssl.js'
-import { checkDns } from './scanner/dns.js'
+import { DashboardClient, type NetworkSegment, type DeviceToMonitor, type DeviceCheck, type StatusReport, type AgentCommand, type DiscoveredDevice, type DiscoveryResponse } from './api/client.js'
 import { discoverDevices } from './scanner/discover.js'
 import { pingHost } from './scanner/ping.js'
 import { checkTcpPort } from './scanner/tcp.js'
-import { checkHttp } from './scanner/http.js'
+import { probeGate } from './scanner/probe-gate.js'
 import { getPhysicalLocalNetworks, generateAutoSegmentName } from './utils/network-detect.js'
 import { AgentUIServer, type SegmentInfo, type DeviceInfo } from './ui/server.js'
 import { RealtimeClient, type AgentCommand as RealtimeAgentCommand } from './api/realtime.js'
+import { AckTimeoutError, SocketClient, type ServerSegment } from './api/socket.js'
+import { DashboardTransport } from './api/transport.js'
+import { Outbox } from './api/outbox.js'
+import { PayloadValidator } from './api/validate.js'
+import { ReportBatcher } from './api/report-batcher.js'
+import { CheckScheduler, type ScheduledJob } from './scheduler/scheduler.js'
+import { resolveDeviceChecks, hasExplicitChecks, checkIntervalMs, runCheck, rollupStatus, type ObservedStatus, type CheckStatus } from './monitor/checks.js'
+import { StatusTracker, type StatusPolicy } from './monitor/status-tracker.js'
+import { MonitorStateStore } from './monitor/state-store.js'
+import { MaintenanceSchedule } from './monitor/maintenance.js'
+import { DependencyGraph, GATEWAY_REF_PREFIX } from './monitor/dependencies.js'
+import { LatencyBaseline } from './monitor/baseline.js'
+import { TimeSeriesStore } from './monitor/timeseries.js'
+import { SlaReporter } from './monitor/sla.js'
+import { buildDiscoveryChunks, uploadDiscoveryChunks, type DiscoveryChunk } from './api/discovery-upload.js'
+import { CommandLedger } from './api/command-ledger.js'
+import { OutboundAgents } from './api/http-agents.js'
+import { CommandVerifier } from './api/signing.js'
 import { performUpgrade } from './upgrade/upgrader.js'
+import { storeRotatedApiKey } from './utils/config-store.js'
+import { readJsonFile } from './utils/json-file.js'
+import { runSecretCommand, runHistoryCommand, runSlaCommand } from './cli.js'
 import { shouldAutoUpgrade } from './utils/version.js'
 
 // UI Server port (can be configured via env)
@@ -24,24 +43,35 @@ interface SegmentState {
   scanning: boolean
 }
 
-// Track consecutive failures for status hysteresis
-const deviceFailureCounts = new Map<string, number>()
-const lastKnownStatus = new Map<string, 'online' | 'offline' | 'degraded' | 'unknown'>()
+// Result of executing a command, recorded in the command ledger and sent as the ack
+interface CommandOutcome {
+  success: boolean
+  result?: Record<string, unknown>
+  error?: string
+  // Set when the dashboard already recorded the result (e.g. ping via the pong endpoint)
+  acknowledged?: boolean
+  // Work that must only start once the ack has been sent (restart, upgrade)
+  afterAck?: () => Promise<void>
+}
+
+// Scheduler priorities: devices the dashboard tracks are checked before discovery-only ones
+const PRIORITY_MONITORED = 10
+const PRIORITY_DISCOVERED = 0
+
+// Status hysteresis for discovered devices (by IP) and for dashboard device checks
+const localStatus = new StatusTracker()
+const checkStatus = new StatusTracker()
 
 /**
- * Prune device tracking maps to only active devices
+ * Prune device tracking to only active devices
  * This prevents memory leaks without resetting all hysteresis state
  */
-function pruneDeviceTracking(activeKeys: Set<string>, logger: ReturnType<typeof createLogger>): void {
-  let removedCount = 0
-  for (const key of deviceFailureCounts.keys()) {
-    if (!activeKeys.has(key)) {
-      deviceFailureCounts.delete(key)
-      lastKnownStatus.delete(key)
-      removedCount++
-    }
-  }
-
+function pruneDeviceTracking(
+  stores: { prune(activeKeys: Set<string>): number }[],
+  activeKeys: Set<string>,
+  logger: ReturnType<typeof createLogger>
+): void {
+  const removedCount = stores.reduce((sum, store) => sum + store.prune(activeKeys), 0)
   if (removedCount > 0) {
     logger.debug(`Pruned ${removedCount} device tracking entries`)
   }
@@ -63,8 +93,30 @@ async function main() {
   logger.info(`Agent name: ${config.agentName}`)
   logger.info(`Dashboard URL: ${config.dashboardUrl}`)
 
+  // Outbound agents apply proxy and CA bundle settings to every dashboard-facing connection
+  const agents = new OutboundAgents(
+    {
+      httpProxy: config.httpProxy,
+      httpsProxy: config.httpsProxy,
+      noProxy: config.noProxy,
+      proxyUsername: config.proxyUsername,
+      proxyPassword: config.proxyPassword,
+      caBundlePath: config.caBundlePath,
+      dashboardUrl: config.dashboardUrl,
+      clientCertPath: config.tlsClientCert,
+      clientKeyPath: config.tlsClientKey,
+      clientKeyPassphrase: config.tlsClientKeyPassphrase,
+    },
+    logger
+  )
+
   // Create dashboard client
-  const client = new DashboardClient(config.dashboardUrl, config.apiKey, logger)
+  const client = new DashboardClient(config.dashboardUrl, config.apiKey, logger, agents, {
+    gzipUploads: config.discoveryGzip,
+  })
+
+  // Everything the dashboard sends is validated before use; bad entries are dropped and counted
+  const validator = new PayloadValidator(logger)
 
   // Create UI server
   const uiServer = new AgentUIServer(UI_PORT, logger, {
@@ -76,17 +128,380 @@ async function main() {
   // Track segment scan states
   const segmentStates = new Map<string, SegmentState>()
 
+  // Socket.IO client - preferred transport for reports and acks while authenticated
+  const socketClient = config.enableSocket
+    ? new SocketClient(
+      {
+        dashboardUrl: config.dashboardUrl,
+        apiKey: config.apiKey,
+        version: VERSION,
+        hostname: os.hostname(),
+        agent: agents.agentFor(config.dashboardUrl),
+        tls: agents.tlsOptions(config.dashboardUrl),
+        validator,
+        onSegmentsUpdated: (segments) => {
+          applySegments(segments.filter(s => s.is_enabled !== false).map(toNetworkSegment))
+          refreshSegmentsUI()
+        },
+        onCommand: (command) => {
+          uiServer.addLog('info', `Socket command: ${String(command.command_type)}`)
+          const agentCommand = {
+            id: command.command_id,
+            command_type: command.command_type,
+            payload: command.payload,
+            status: 'pending',
+            created_at: new Date().toISOString(),
+            signature: command.signature,
+            expires_at: command.expires_at,
+          }
+          handleInboundCommands([agentCommand], 'socket').catch(err => {
+            logger.error(`Socket command error: ${err instanceof Error ? err.message : 'Unknown'}`)
+          })
+        },
+        onConnectionStateChange: (state) => {
+          uiServer.updateTransport(state === 'authenticated' ? 'socket' : 'http')
+        },
+      },
+      logger
+    )
+    : null
+
+  // All report/ack traffic goes through the transport so it can fall back to HTTP
+  const transport = new DashboardTransport(client, socketClient, logger)
+
+  // Failed uploads are queued on disk and replayed once the dashboard is reachable again
+  const outbox = new Outbox(
+    {
+      dataDir: config.dataDir,
+      maxEntries: config.outboxMaxEntries,
+      maxAgeMs: config.outboxMaxAgeHours * 60 * 60 * 1000,
+    },
+    logger
+  )
+  await outbox.load()
+
+  // Every command seen is recorded so duplicates are skipped and lost acks can be re-sent
+  const commandLedger = new CommandLedger({ dataDir: config.dataDir }, logger)
+  await commandLedger.load()
+
+  // Commands must carry a valid dashboard signature once a public key is pinned
+  const commandVerifier = new CommandVerifier(config.dashboardPublicKey, logger, config.allowUnsignedCommands)
+
+  /**
+   * Upload status reports, queueing them in the outbox if the dashboard is unreachable.
+   * While older uploads are still queued, new ones are queued behind them to preserve order.
+   */
+  async function deliverStatusReports(reports: StatusReport[]): Promise<void> {
+    if (outbox.size() > 0) {
+      await outbox.enqueue({ kind: 'status', reports })
+      return
+    }
+
+    try {
+      const response = validator.statusResponse(await transport.uploadStatusReports(reports), 'status upload')
+      logger.debug(`Status upload: ${response.processed} processed`)
+    } catch (error) {
+      // The dashboard may have processed them; queueing would report them twice
+      if (error instanceof AckTimeoutError) return
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      logger.warn(`Status upload failed, queued ${reports.length} report(s): ${errorMsg}`)
+      await outbox.enqueue({ kind: 'status', reports })
+    }
+  }
+
+  /**
+   * Upload discovered devices, queueing them in the outbox if the dashboard is unreachable.
+   * Returns null when the upload was queued.
+   */
+  async function deliverDiscoveredDevices(segmentId: string, devices: DiscoveredDevice[]): Promise<DiscoveryResponse | null> {
+    const chunks = buildDiscoveryChunks(segmentId, devices, new Date().toISOString(), config.discoveryChunkSize)
+
+    if (outbox.size() > 0) {
+      for (const chunk of chunks) {
+        await outbox.enqueue({ kind: 'discovery', chunk })
+      }
+      return null
+    }
+
+    // Only chunks that still fail after their own retries are queued
+    const { response, failed } = await uploadDiscoveryChunks(chunks, uploadDiscoveryChunk, logger)
+    if (failed.length > 0) {
+      logger.warn(`Discovery upload incomplete, queued ${failed.length} of ${chunks.length} chunk(s)`)
+      for (const chunk of failed) {
+        await outbox.enqueue({ kind: 'discovery', chunk })
+      }
+      return null
+    }
+
+    return response
+  }
+
+  async function uploadDiscoveryChunk(chunk: DiscoveryChunk): Promise<DiscoveryResponse> {
+    const response = await transport.uploadDiscoveredDevices(chunk.segment_id, chunk.devices, chunk.scan_timestamp, {
+      scan_id: chunk.scan_id,
+      chunk_index: chunk.chunk_index,
+      chunk_count: chunk.chunk_count,
+    })
+    return validator.discoveryResponse(response, 'discovery upload')
+  }
+
+  /**
+   * Replay queued uploads in order (called once the heartbeat succeeds)
+   */
+  function flushOutbox() {
+    outbox.flush(async (entry) => {
+      if (entry.kind === 'status') {
+        try {
+          await transport.uploadStatusReports(entry.reports)
+        } catch (error) {
+          // Possibly delivered; drop it rather than replay it a second time
+          if (!(error instanceof AckTimeoutError)) throw error
+        }
+      } else {
+        await uploadDiscoveryChunk(entry.chunk)
+      }
+    }).catch(err => {
+      logger.error(`Outbox flush error: ${err instanceof Error ? err.message : 'Unknown'}`)
+    })
+  }
+
+  // One probe rate cap shared by checks, discovery and on-demand scans
+  probeGate.setRate(config.checkRateLimit)
+
+  // Device checks run on a bounded worker pool; their reports are uploaded in batches
+  const scheduler = new CheckScheduler({
+    concurrency: config.checkConcurrency,
+    spread: true,
+    jitter: config.checkJitter,
+  }, logger)
+  const reportBatcher = new ReportBatcher(
+    { flushIntervalMs: 5000, maxBatchSize: 200 },
+    reports => deliverStatusReports(reports),
+    logger
+  )
+
+  // Debounce thresholds and flap detection shared by every tracked device and check
+  const statusPolicy: StatusPolicy = {
+    failureThreshold: config.statusFailureThreshold,
+    recoveryThreshold: config.statusRecoveryThreshold,
+    flapWindowMs: config.flapWindow,
+    flapThreshold: config.flapThreshold,
+  }
+
+  // Reported status per dashboard device, used to suppress children of a device that is down
+  const dependencies = new DependencyGraph()
+  const deviceStatus = new Map<string, CheckStatus>()
+  let dependencyCycle = ''
+
+  /**
+   * Rebuild the dependency graph, warning once each time the set of devices on a cycle changes.
+   * Statuses of devices the dashboard no longer lists are dropped.
+   */
+  function updateDependencies(devices: DeviceToMonitor[]) {
+    const activeIds = new Set(devices.map(d => d.id))
+    for (const id of deviceStatus.keys()) {
+      if (!activeIds.has(id)) deviceStatus.delete(id)
+    }
+
+    const cyclic = dependencies.update(devices, Array.from(segmentStates.values(), s => s.segment)).sort().join(', ')
+    if (cyclic && cyclic !== dependencyCycle) {
+      logger.warn(`Device dependencies form a cycle (${cyclic}); those links are ignored`)
+    }
+    dependencyCycle = cyclic
+  }
+
+  /**
+   * Report an offline device as unreachable while one of its parents is down
+   */
+  function applyDependencies(deviceId: string, status: CheckStatus): { status: CheckStatus; unreachableVia?: string } {
+    if (status !== 'offline') return { status }
+    const parent = dependencies.downParent(deviceId, ref => ref.startsWith(GATEWAY_REF_PREFIX)
+      ? localStatus.get(ref.slice(GATEWAY_REF_PREFIX.length))
+      : deviceStatus.get(ref) ?? 'unknown')
+    return parent ? { status: 'unreachable', unreachableVia: parent } : { status }
+  }
+
+  // Maintenance windows come from the heartbeat and, optionally, a local file
+  const maintenance = new MaintenanceSchedule(logger)
+  if (config.maintenanceWindowsFile) {
+    try {
+      const data = await readJsonFile<unknown>(config.maintenanceWindowsFile)
+      if (data === null) {
+        throw new Error('file not found')
+      }
+      maintenance.setWindows('local', validator.maintenanceWindows(data, 'maintenance file') ?? [])
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      logger.warn(`Could not load maintenance windows from ${config.maintenanceWindowsFile}: ${errorMsg}`)
+    }
+  }
+
+  // Learned latency per discovered device and per device check; sustained spikes mean degraded
+  const baselineOptions = {
+    factor: config.latencyAnomalyFactor,
+    consecutive: config.latencyAnomalyCount,
+    relearnAfter: config.latencyRelearnCount,
+  }
+  const localBaseline = new LatencyBaseline(baselineOptions)
+  const checkBaseline = new LatencyBaseline(baselineOptions)
+
+  /**
+   * Feed an online result's response time to the baseline, degrading it on sustained anomalies
+   */
+  function applyBaseline(baseline: LatencyBaseline, key: string, observed: ObservedStatus, responseTime: number | null, inMaintenance: boolean) {
+    if (observed !== 'online' || responseTime === null || inMaintenance) {
+      return { observed, stats: undefined }
+    }
+    const result = baseline.observe(key, responseTime)
+    return { observed: result.degraded ? 'degraded' as const : observed, stats: result.stats ?? undefined }
+  }
+
   // Track discovered devices for UI
   const discoveredDevices = new Map<string, DeviceInfo>()
 
+  // Monitoring state is snapshotted periodically so a restart doesn't reset every device to unknown
+  const stateStore = new MonitorStateStore(
+    { dataDir: config.dataDir, maxAgeMs: config.stateMaxAgeHours * 60 * 60 * 1000 },
+    logger
+  )
+  const restoredState = await stateStore.load()
+  if (restoredState) {
+    localStatus.restore(restoredState.local)
+    checkStatus.restore(restoredState.checks)
+    localBaseline.restore(restoredState.baselines.local)
+    checkBaseline.restore(restoredState.baselines.checks)
+    scheduler.restoreLastRuns(restoredState.last_runs)
+    for (const device of restoredState.devices) {
+      discoveredDevices.set(device.ip, device)
+    }
+    uiServer.updateDevices(Array.from(discoveredDevices.values()))
+  }
+
+  function saveMonitorState(): Promise<void> {
+    return stateStore.save({
+      local: localStatus.snapshot(),
+      checks: checkStatus.snapshot(),
+      devices: Array.from(discoveredDevices.values()),
+      last_runs: scheduler.getLastRuns(),
+      baselines: { local: localBaseline.snapshot(), checks: checkBaseline.snapshot() },
+    })
+  }
+
+  const stateSnapshotTimer = setInterval(() => {
+    saveMonitorState()
+  }, config.stateSnapshotInterval)
+
+  // Every check result is kept locally so the UI and CLI can show history without the dashboard
+  const history = new TimeSeriesStore(
+    {
+      dataDir: config.dataDir,
+      rawRetentionMs: config.historyRawRetentionHours * 60 * 60 * 1000,
+      rollupRetentionMs: config.historyRollupRetentionDays * 24 * 60 * 60 * 1000,
+    },
+    logger
+  )
+  history.start()
+  uiServer.setHistorySource(history)
+
+  // Series key and segment of each dashboard device, so SLAs can be asked for by device id
+  const dashboardSeries = new Map<string, { key: string; segmentId?: string }>()
+  uiServer.setSlaSource(new SlaReporter(history, {
+    seriesKey: device => dashboardSeries.get(device)?.key ?? device,
+    segmentKeys: segmentId => {
+      const keys = new Set<string>()
+      for (const device of discoveredDevices.values()) {
+        if (device.segmentId === segmentId) keys.add(device.ip)
+      }
+      for (const series of dashboardSeries.values()) {
+        if (series.segmentId === segmentId) keys.add(series.key)
+      }
+      return keys.size > 0 || segmentStates.has(segmentId) ? Array.from(keys) : null
+    },
+  }))
+
   // Agent state
   let agentId: string | null = null
   let organizationId: string | null = null
+  // Commands that arrived before the first heartbeat, when their signature can't be checked yet
+  let deferredCommands: AgentCommand[] = []
   let isRunning = true
 
   // Realtime client for instant command delivery
   let realtimeClient: RealtimeClient | null = null
 
+  /**
+   * Convert a segment pushed over the socket into the REST segment shape
+   */
+  function toNetworkSegment(segment: ServerSegment): NetworkSegment {
+    return {
+      id: segment.id,
+      name: segment.name,
+      cidr: segment.cidr,
+      scan_interval_seconds: segment.scan_interval_seconds,
+      segment_type: segment.segment_type ?? segmentStates.get(segment.id)?.segment.segment_type ?? 'local_scan',
+      gateway_ip: segment.gateway_ip,
+    }
+  }
+
+  /**
+   * Reconcile tracked segment states with the dashboard's current assignment
+   */
+  function applySegments(segments: NetworkSegment[]) {
+    const currentSegmentIds = new Set(segments.map(s => s.id))
+
+    // Remove old segments
+    for (const [id] of segmentStates) {
+      if (!currentSegmentIds.has(id)) {
+        logger.info(`Segment removed: ${id}`)
+        segmentStates.delete(id)
+      }
+    }
+
+    // Add/update segments
+    for (const segment of segments) {
+      if (!segmentStates.has(segment.id)) {
+        logger.info(`Segment added: ${segment.name} (${segment.cidr})`)
+        segmentStates.set(segment.id, {
+          segment,
+          lastScan: 0,
+          scanning: false,
+        })
+      } else {
+        const state = segmentStates.get(segment.id)!
+        state.segment = segment
+      }
+    }
+  }
+
+  /**
+   * Push the tracked segments to the UI
+   */
+  function refreshSegmentsUI() {
+    uiServer.updateSegments(
+      Array.from(segmentStates.values()).map(s => ({
+        id: s.segment.id,
+        name: s.segment.name,
+        cidr: s.segment.cidr,
+        lastScan: s.lastScan ? new Date(s.lastScan).toISOString() : null,
+        deviceCount: Array.from(discoveredDevices.values()).filter(d => d.id.startsWith(s.segment.id)).length,
+        scanning: s.scanning,
+      }))
+    )
+  }
+
+  /**
+   * Start (or restart) the socket connection if it is not already up or in progress
+   */
+  function ensureSocketConnected() {
+    if (!socketClient || socketClient.getConnectionState() !== 'disconnected') {
+      return
+    }
+
+    socketClient.connect().catch(err => {
+      logger.warn(`Socket unavailable, using HTTP: ${err instanceof Error ? err.message : 'Unknown'}`)
+    })
+  }
+
   /**
    * Setup or update realtime client when we have credentials
    */
@@ -108,6 +523,8 @@ async function main() {
           supabaseUrl,
           supabaseAnonKey,
           agentId: currentAgentId,
+          agentFor: (url) => agents.agentFor(url),
+          tls: agents.tlsOptions(supabaseUrl),
           onCommand: (command) => {
             logger.info(`Realtime command: ${command.command_type}`)
             uiServer.addLog('info', `Realtime command: ${command.command_type}`)
@@ -119,8 +536,10 @@ async function main() {
               payload: command.payload,
               status: command.status,
               created_at: command.created_at,
+              signature: command.signature,
+              expires_at: command.expires_at,
             }
-            processCommands([agentCommand]).catch(err => {
+            handleInboundCommands([agentCommand], 'realtime').catch(err => {
               logger.error(`Realtime command error: ${err instanceof Error ? err.message : 'Unknown'}`)
             })
           },
@@ -146,9 +565,16 @@ async function main() {
   const shutdown = async () => {
     logger.info('Shutting down...')
     isRunning = false
+    scheduler.stop()
+    reportBatcher.stop()
+    await reportBatcher.flush().catch(() => {})
+    clearInterval(stateSnapshotTimer)
+    await saveMonitorState()
+    await history.stop()
     if (realtimeClient) {
       await realtimeClient.disconnect()
     }
+    socketClient?.disconnect()
     await uiServer.stop()
     process.exit(0)
   }
@@ -164,52 +590,52 @@ async function main() {
     let retryDelay = 2000
 
     while (isRunning) {
+      // Keep trying to get back onto the socket transport
+      ensureSocketConnected()
+
       try {
-        const response = await client.heartbeat(VERSION, hostname)
+        const response = validator.heartbeatResponse(
+          await transport.heartbeat(VERSION, hostname, {
+            client_cert_expires_at: agents.clientCertificate?.expiresAt,
+            validation_errors: validator.getErrorCount(),
+            scheduler: scheduler.getMetrics(),
+          }),
+          'heartbeat'
+        )
         agentId = response.agent_id
         organizationId = response.organization_id
 
-        logger.debug(`Heartbeat OK - Agent: ${agentId}, Org: ${organizationId}`)
+        if (deferredCommands.length > 0) {
+          const deferred = deferredCommands
+          deferredCommands = []
+          logger.info(`Processing ${deferred.length} command(s) received before the first heartbeat`)
+          processCommands(deferred).catch(err => {
+            logger.error(`Command processing error: ${err instanceof Error ? err.message : 'Unknown error'}`)
+          })
+        }
 
-        // Update segments
-        const currentSegmentIds = new Set(response.segments.map(s => s.id))
+        logger.debug(`Heartbeat OK via ${transport.getMode()} - Agent: ${agentId}, Org: ${organizationId}`)
 
-        // Remove old segments
-        for (const [id] of segmentStates) {
-          if (!currentSegmentIds.has(id)) {
-            logger.info(`Segment removed: ${id}`)
-            segmentStates.delete(id)
-          }
+        // Update segments (keep the current assignment if the list was unusable)
+        if (response.segments) {
+          applySegments(response.segments)
         }
 
-        // Add/update segments
-        for (const segment of response.segments) {
-          if (!segmentStates.has(segment.id)) {
-            logger.info(`Segment added: ${segment.name} (${segment.cidr})`)
-            segmentStates.set(segment.id, {
-              segment,
-              lastScan: 0,
-              scanning: false,
-            })
-          } else {
-            const state = segmentStates.get(segment.id)!
-            state.segment = segment
-          }
+        if (response.maintenance_windows) {
+          maintenance.setWindows('dashboard', response.maintenance_windows)
         }
 
         // Update UI with connection status and segments
         uiServer.updateConnection(true, agentId, organizationId)
-        uiServer.updateSegments(
-          Array.from(segmentStates.values()).map(s => ({
-            id: s.segment.id,
-            name: s.segment.name,
-            cidr: s.segment.cidr,
-            lastScan: s.lastScan ? new Date(s.lastScan).toISOString() : null,
-            deviceCount: Array.from(discoveredDevices.values()).filter(d => d.id.startsWith(s.segment.id)).length,
-            scanning: s.scanning,
-          }))
-        )
-        uiServer.addLog('info', `Heartbeat OK - ${response.segments.length} segment(s)`)
+        uiServer.updateTransport(transport.getMode())
+        refreshSegmentsUI()
+        uiServer.addLog('info', `Heartbeat OK - ${segmentStates.size} segment(s)`)
+
+        // Dashboard is reachable again - replay anything queued while it was not
+        flushOutbox()
+        retryPendingAcks().catch(err => {
+          logger.error(`Ack retry error: ${err instanceof Error ? err.message : 'Unknown'}`)
+        })
 
         // Check for upgrade and update UI
         if (response.upgrade_available && response.latest_agent_version) {
@@ -223,7 +649,7 @@ async function main() {
         if (response.pending_commands && response.pending_commands.length > 0) {
           logger.info(`Received ${response.pending_commands.length} pending command(s)`)
           // Process commands asynchronously to not block heartbeat
-          processCommands(response.pending_commands).catch(err => {
+          handleInboundCommands(response.pending_commands, 'heartbeat').catch(err => {
             logger.error(`Command processing error: ${err instanceof Error ? err.message : 'Unknown error'}`)
           })
         }
@@ -290,6 +716,7 @@ async function main() {
               name: device.hostname || device.ip_address,
               ip: device.ip_address,
               mac: device.mac_address,
+              segmentId: segment.id,
               status: existing?.status || 'unknown',
               responseTime: existing?.responseTime,
               lastCheck: existing?.lastCheck,
@@ -299,9 +726,13 @@ async function main() {
           uiServer.updateDevices(Array.from(discoveredDevices.values()))
 
           if (devices.length > 0) {
-            const response = await client.uploadDiscoveredDevices(segment.id, devices)
-            logger.debug(`Upload result: ${response.created} created, ${response.updated} updated`)
-            uiServer.addLog('info', `Discovered ${devices.length} devices (${response.created} new, ${response.updated} updated)`)
+            const response = await deliverDiscoveredDevices(segment.id, devices)
+            if (response) {
+              logger.debug(`Upload result: ${response.created} created, ${response.updated} updated`)
+              uiServer.addLog('info', `Discovered ${devices.length} devices (${response.created} new, ${response.updated} updated)`)
+            } else {
+              uiServer.addLog('warn', `Discovered ${devices.length} devices (upload queued)`)
+            }
           }
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : 'Unknown error'
@@ -366,33 +797,23 @@ async function main() {
   }
 
   /**
-   * Status check loop - monitors device health
-   * Checks ALL discovered devices, not just dashboard-monitored ones
+   * Status check loop - keeps a scheduled probe job for every discovered device.
+   * Checks ALL discovered devices, not just dashboard-monitored ones (those run first).
    */
   async function statusCheckLoop() {
     while (isRunning) {
       try {
         // Get devices from dashboard for reporting
-        const dashboardDevices = await client.getDevicesToMonitor()
+        const dashboardDevices = validator.devicesToMonitor(await client.getDevicesToMonitor(), 'devices')
+        updateDependencies(dashboardDevices)
         const dashboardDeviceMap = new Map(
           dashboardDevices.filter(d => d.ip_address).map(d => [d.ip_address!, d])
         )
 
-        // Get all locally discovered devices
-        const allDevices = Array.from(discoveredDevices.values())
-
-        if (allDevices.length === 0) {
-          logger.debug('No devices to monitor')
-          await new Promise(resolve => setTimeout(resolve, config.statusCheckInterval))
-          continue
-        }
-
-        logger.debug(`Checking status of ${allDevices.length} discovered devices`)
-
-        const reports: StatusReport[] = []
+        const jobs: ScheduledJob[] = []
         const activeKeys = new Set<string>()
 
-        for (const device of allDevices) {
+        for (const device of discoveredDevices.values()) {
           const deviceKey = device.ip
           if (!deviceKey || deviceKey === '---') continue
 
@@ -405,83 +826,97 @@ async function main() {
 
           activeKeys.add(deviceKey)
 
-          let status: 'online' | 'offline' | 'degraded' | 'unknown' = 'unknown'
-          let responseTime: number | null = null
-          let checkMethod = 'ping'
-
-          try {
-            // Use multi-protocol probing for all devices
-            const probeResult = await multiProbe(deviceKey)
-            status = probeResult.status
-            responseTime = probeResult.responseTime
-            checkMethod = probeResult.method
-          } catch (err) {
-            status = 'offline'
-            logger.debug(`Probe error for ${deviceKey}: ${err instanceof Error ? err.message : 'Unknown'}`)
-          }
-
-          // Apply hysteresis for status changes
-          const previousStatus = lastKnownStatus.get(deviceKey)
-          const failureCount = deviceFailureCounts.get(deviceKey) || 0
-
-          if (status === 'offline' && previousStatus === 'online') {
-            if (failureCount < config.statusFailureThreshold) {
-              deviceFailureCounts.set(deviceKey, failureCount + 1)
-              status = 'online' // Keep as online until threshold reached
-            }
-          } else if (status === 'online') {
-            deviceFailureCounts.set(deviceKey, 0)
-          }
-
-          lastKnownStatus.set(deviceKey, status)
-
-          // Update UI
-          device.status = status
-          device.responseTime = responseTime ?? undefined
-          device.lastCheck = new Date().toISOString()
-          uiServer.updateDeviceStatus(deviceKey, status, responseTime ?? undefined)
-
-          // If device is in dashboard, report status back
-          const dashboardDevice = dashboardDeviceMap.get(deviceKey)
+          // Devices with their own checks run them in the check loop; the probe here only feeds the UI
+          const mapped = dashboardDeviceMap.get(deviceKey)
+          const dashboardDevice = mapped && !hasExplicitChecks(mapped) ? mapped : undefined
           if (dashboardDevice) {
-            reports.push({
-              device_id: dashboardDevice.id,
-              ip_address: deviceKey,
-              status,
-              response_time_ms: responseTime,
-              check_type: dashboardDevice.check_type || 'ping',
-              checked_at: new Date().toISOString(),
-            })
+            dashboardSeries.set(dashboardDevice.id, { key: deviceKey, segmentId: dashboardDevice.network_segment_id })
           }
+          jobs.push({
+            id: `local:${deviceKey}`,
+            group: 'local',
+            intervalMs: config.statusCheckInterval,
+            priority: dashboardDevice ? PRIORITY_MONITORED : PRIORITY_DISCOVERED,
+            run: () => checkLocalDevice(deviceKey, dashboardDevice),
+          })
         }
 
-        // Update UI with all devices
-        uiServer.updateDevices(Array.from(discoveredDevices.values()))
+        scheduler.sync('local', jobs)
+        logger.debug(`Scheduled status checks for ${jobs.length} discovered devices`)
 
         // Prune old device tracking entries
-        pruneDeviceTracking(activeKeys, logger)
-
-        // Upload status reports for dashboard-tracked devices
-        if (reports.length > 0) {
-          const response = await client.uploadStatusReports(reports)
-          logger.debug(`Status upload: ${response.processed} processed`)
-        }
-
+        pruneDeviceTracking([localStatus, localBaseline], activeKeys, logger)
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error'
         logger.error(`Status check failed: ${errorMsg}`)
       }
 
+      // Re-sync the job list; each device runs on its own schedule in between
       await new Promise(resolve => setTimeout(resolve, config.statusCheckInterval))
     }
   }
 
-  // Track last check time per device for remote monitoring
-  const remoteDeviceLastCheck = new Map<string, number>()
+  /**
+   * Probe one discovered device, apply hysteresis and queue a report if the dashboard tracks it
+   */
+  async function checkLocalDevice(deviceKey: string, dashboardDevice?: DeviceToMonitor) {
+    let observed: ObservedStatus = 'unknown'
+    let responseTime: number | null = null
+
+    try {
+      // Use multi-protocol probing for all devices
+      const probeResult = await multiProbe(deviceKey)
+      observed = probeResult.status
+      responseTime = probeResult.responseTime
+    } catch (err) {
+      observed = 'offline'
+      logger.debug(`Probe error for ${deviceKey}: ${err instanceof Error ? err.message : 'Unknown'}`)
+    }
+
+    // Apply hysteresis and flap detection for status changes
+    const inMaintenance = !!dashboardDevice && !!maintenance.activeWindow({
+      device_id: dashboardDevice.id,
+      segment_id: dashboardDevice.network_segment_id,
+      tags: dashboardDevice.tags,
+    })
+    const latency = applyBaseline(localBaseline, deviceKey, observed, responseTime, inMaintenance)
+    const verdict = localStatus.apply(deviceKey, latency.observed, statusPolicy, inMaintenance)
+    const { status, unreachableVia } = dashboardDevice
+      ? applyDependencies(dashboardDevice.id, verdict.status)
+      : { status: verdict.status, unreachableVia: undefined }
+
+    // Update UI
+    const device = discoveredDevices.get(deviceKey)
+    if (device) {
+      device.status = status
+      device.responseTime = responseTime ?? undefined
+      device.lastCheck = new Date().toISOString()
+    }
+    uiServer.updateDeviceStatus(deviceKey, status, responseTime ?? undefined)
+    history.record(deviceKey, status, responseTime, inMaintenance)
+
+    // If device is in dashboard, report status back
+    if (dashboardDevice) {
+      deviceStatus.set(dashboardDevice.id, status)
+      reportBatcher.add({
+        device_id: dashboardDevice.id,
+        ip_address: deviceKey,
+        status,
+        response_time_ms: responseTime,
+        check_type: dashboardDevice.check_type || 'ping',
+        checked_at: new Date().toISOString(),
+        flap_score: verdict.flap_score,
+        in_maintenance: inMaintenance || undefined,
+        unreachable_via: unreachableVia,
+        latency_baseline: latency.stats,
+      })
+    }
+  }
 
   /**
-   * Remote monitor loop - checks devices in remote_monitor segments
-   * Uses per-device check intervals and routes to appropriate scanner
+   * Remote monitor loop - keeps a scheduled job for every check of every device in
+   * remote_monitor segments, and of devices in local_scan segments that list their own
+   * checks, each on its own interval
    */
   async function remoteMonitorLoop() {
     // Wait for initial heartbeat
@@ -489,129 +924,118 @@ async function main() {
 
     while (isRunning) {
       try {
-        // Find remote_monitor segments
-        const remoteSegments = Array.from(segmentStates.values())
-          .filter(s => s.segment.segment_type === 'remote_monitor')
-
-        if (remoteSegments.length === 0) {
-          await new Promise(resolve => setTimeout(resolve, 30000))
-          continue
-        }
-
-        // Get all devices to monitor
-        const allDevices = await client.getDevicesToMonitor()
-        const remoteSegmentIds = new Set(remoteSegments.map(s => s.segment.id))
+        const segments = Array.from(segmentStates.values(), s => s.segment)
+        const remoteSegments = segments.filter(s => s.segment_type === 'remote_monitor')
 
-        // Filter to devices in remote segments
-        const remoteDevices = allDevices.filter(
-          d => d.network_segment_id && remoteSegmentIds.has(d.network_segment_id)
-        )
-
-        if (remoteDevices.length === 0) {
-          await new Promise(resolve => setTimeout(resolve, 30000))
-          continue
-        }
-
-        const now = Date.now()
-        const reports: StatusReport[] = []
-
-        for (const device of remoteDevices) {
-          const interval = (device.check_interval_seconds || 60) * 1000
-          const lastCheck = remoteDeviceLastCheck.get(device.id) || 0
-
-          if (now - lastCheck < interval) continue
-
-          remoteDeviceLastCheck.set(device.id, now)
-
-          const target = device.hostname || device.ip_address
-          if (!target) continue
-
-          try {
-            let status: 'online' | 'offline' | 'degraded' | 'unknown' = 'unknown'
-            let responseTime: number | null = null
-            let sslExpiryAt: string | undefined
-            let sslIssuer: string | undefined
-            let sslSubject: string | undefined
-
-            switch (device.check_type) {
-              case 'ssl': {
-                const port = device.port || 443
-                const result = await checkSsl(target, logger, port, device.ssl_expiry_warn_days || 30)
-                status = result.status
-                responseTime = result.response_time_ms
-                sslExpiryAt = result.ssl_expiry_at
-                sslIssuer = result.ssl_issuer
-                sslSubject = result.ssl_subject
-                break
-              }
-
-              case 'dns': {
-                const result = await checkDns(target, logger, device.dns_expected_ip)
-                status = result.status
-                responseTime = result.response_time_ms
-                break
-              }
-
-              case 'http': {
-                const url = device.url || `https://${target}`
-                const result = await checkHttp(url, logger)
-                status = result.status
-                responseTime = result.response_time_ms
-                break
-              }
-
-              case 'tcp': {
-                const port = device.port || 443
-                const result = await checkTcpPort(target, port, logger)
-                status = result.status
-                responseTime = result.response_time_ms
-                break
-              }
-
-              case 'ping':
-              default: {
-                const result = await pingHost(target, logger)
-                status = result.status
-                responseTime = result.response_time_ms
-                break
-              }
+        if (segments.length === 0) {
+          scheduler.sync('remote', [])
+          uiServer.pruneChecks(new Set())
+        } else {
+          // Get all devices to monitor
+          const allDevices = validator.devicesToMonitor(await client.getDevicesToMonitor(), 'devices')
+          updateDependencies(allDevices)
+          const remoteSegmentIds = new Set(remoteSegments.map(s => s.id))
+
+          // Filter to devices in remote segments, or in local segments with their own checks,
+          // that have something to check
+          const remoteDevices = allDevices.filter(
+            d => d.network_segment_id && segmentStates.has(d.network_segment_id)
+              && (remoteSegmentIds.has(d.network_segment_id) || hasExplicitChecks(d))
+              && (d.hostname || d.ip_address)
+          )
+
+          const jobs: ScheduledJob[] = []
+          const activeKeys = new Set<string>()
+
+          for (const device of remoteDevices) {
+            const checks = resolveDeviceChecks(device)
+            dashboardSeries.set(device.id, { key: device.id, segmentId: device.network_segment_id })
+            for (const check of checks) {
+              activeKeys.add(`${device.id}:${check.id}`)
+              jobs.push({
+                id: `remote:${device.id}:${check.id}`,
+                group: 'remote',
+                intervalMs: checkIntervalMs(check, device),
+                priority: PRIORITY_MONITORED,
+                run: () => checkRemoteDevice(device, check, checks),
+              })
             }
-
-            reports.push({
-              device_id: device.id,
-              ip_address: device.ip_address || target,
-              status,
-              response_time_ms: responseTime,
-              check_type: device.check_type,
-              checked_at: new Date().toISOString(),
-              ssl_expiry_at: sslExpiryAt,
-              ssl_issuer: sslIssuer,
-              ssl_subject: sslSubject,
-            })
-
-            logger.debug(`Remote check ${target} (${device.check_type}): ${status}`)
-          } catch (err) {
-            logger.error(`Remote check failed for ${target}: ${err instanceof Error ? err.message : 'Unknown'}`)
           }
-        }
 
-        // Upload status reports
-        if (reports.length > 0) {
-          const response = await client.uploadStatusReports(reports)
-          logger.debug(`Remote monitor: ${response.processed} reports uploaded`)
-        }
-
-        // Prune stale entries
-        const activeIds = new Set(remoteDevices.map(d => d.id))
-        for (const id of remoteDeviceLastCheck.keys()) {
-          if (!activeIds.has(id)) remoteDeviceLastCheck.delete(id)
+          scheduler.sync('remote', jobs)
+          pruneDeviceTracking([checkStatus, checkBaseline], activeKeys, logger)
+          uiServer.pruneChecks(activeKeys)
         }
       } catch (error) {
         logger.error(`Remote monitor error: ${error instanceof Error ? error.message : 'Unknown'}`)
       }
 
-      // Short sleep between iterations
-      await new Promise(resolve => setTimeout(resolve, 5000))
+      // Re-sync the job list periodically to pick up device changes
+      await new Promise(resolve => setTimeout(resolve, 30000))
+    }
+  }
+
+  /**
+   * Run one of a remote device's checks and queue its report, along with the device rollup
+   */
+  async function checkRemoteDevice(device: DeviceToMonitor, check: DeviceCheck, checks: DeviceCheck[]) {
+    const target = device.hostname || device.ip_address
+    if (!target) return
+
+    try {
+      const result = await runCheck(target, check, logger)
+      const inMaintenance = !!maintenance.activeWindow({
+        device_id: device.id,
+        segment_id: device.network_segment_id,
+        tags: device.tags,
+      })
+      const key = `${device.id}:${check.id}`
+      const latency = applyBaseline(checkBaseline, key, result.status, result.response_time_ms, inMaintenance)
+      const verdict = checkStatus.apply(key, latency.observed, {
+        ...statusPolicy,
+        failureThreshold: check.failure_threshold ?? config.statusFailureThreshold,
+      }, inMaintenance)
+      const { status, unreachableVia } = applyDependencies(device.id, verdict.status)
+      const rollup = applyDependencies(device.id, rollupStatus(checks.map(c => checkStatus.get(`${device.id}:${c.id}`))))
+      deviceStatus.set(device.id, rollup.status)
+      history.record(key, status, result.response_time_ms, inMaintenance)
+      history.record(device.id, rollup.status, null, inMaintenance)
+
+      reportBatcher.add({
+        device_id: device.id,
+        ip_address: device.ip_address || target,
+        status,
+        response_time_ms: result.response_time_ms,
+        check_type: check.check_type,
+        check_id: check.id,
+        device_status: rollup.status,
+        flap_score: verdict.flap_score,
+        in_maintenance: inMaintenance || undefined,
+        unreachable_via: unreachableVia,
+        latency_baseline: latency.stats,
+        checked_at: new Date().toISOString(),
+        error: result.error,
+        ssl_expiry_at: result.ssl_expiry_at,
+        ssl_issuer: result.ssl_issuer,
+        ssl_subject: result.ssl_subject,
+        ssl_details: result.ssl_details,
+        ping_quality: result.ping_quality,
+        http_timings: result.http_timings,
+      })
+      uiServer.updateCheck({
+        id: key,
+        deviceName: device.hostname || device.ip_address || device.id,
+        checkType: check.check_type,
+        status,
+        responseTime: result.response_time_ms ?? undefined,
+        httpTimings: result.http_timings,
+        error: result.error,
+        lastCheck: new Date().toISOString(),
+      })
+
+      logger.debug(`Remote check ${target} (${check.id}): ${status}, device ${rollup.status}`)
+    } catch (err) {
+      logger.error(`Remote check ${check.id} failed for ${target}: ${err instanceof Error ? err.message : 'Unknown'}`)
     }
   }
 
@@ -663,218 +1087,359 @@ async function main() {
       }
 
       // Update UI with newly registered segments
-      if (uiServer) {
-        uiServer.updateSegments(
-          Array.from(segmentStates.values()).map(s => ({
-            id: s.segment.id,
-            name: s.segment.name,
-            cidr: s.segment.cidr,
-            lastScan: s.lastScan ? new Date(s.lastScan).toISOString() : null,
-            deviceCount: 0,
-            scanning: false,
-          }))
-        )
-      }
+      refreshSegmentsUI()
     }
   }
 
   /**
-   * Process commands received from the dashboard
+   * Process commands received from the dashboard.
+   * The command ledger makes this idempotent across realtime, heartbeat and socket delivery.
    */
   async function processCommands(commands: AgentCommand[]) {
     for (const command of commands) {
       if (command.status !== 'pending') continue
 
+      // Signatures are bound to the agent id; keep the command out of the ledger until it's known
+      if (commandVerifier.isEnforced() && !agentId) {
+        if (!deferredCommands.some(c => c.id === command.id)) {
+          logger.info(`Deferring command ${command.command_type} (${command.id}) until the agent id is known`)
+          deferredCommands.push(command)
+        }
+        continue
+      }
+
+      if (!commandLedger.begin(command.id, command.command_type)) {
+        await handleDuplicateCommand(command)
+        continue
+      }
+
       logger.info(`Processing command: ${command.command_type} (${command.id})`)
 
+      let outcome: CommandOutcome
+      const verification = commandVerifier.verify(command, agentId)
       try {
-        switch (command.command_type) {
-          case 'ping': {
-            // Respond with pong and latency
-            const result = await client.sendPong(command.id)
-            logger.info(`Ping response sent, latency: ${result.latency_ms}ms`)
-            // Pong acknowledgement is handled by the ping endpoint
-            break
-          }
+        if (!verification.valid) {
+          logger.warn(`Rejected command ${command.command_type} (${command.id}): ${verification.reason}`)
+          uiServer.addLog('warn', `Rejected command ${command.command_type}: ${verification.reason}`)
+          outcome = { success: false, error: `Command rejected: ${verification.reason}` }
+        } else {
+          await commandLedger.markRunning(command.id)
+          outcome = await executeCommand(command)
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        logger.error(`Command ${command.command_type} failed: ${errorMsg}`)
+        outcome = { success: false, error: errorMsg }
+      }
 
-          case 'scan_now': {
-            // Trigger immediate scan of all segments
-            logger.info('Executing scan_now command')
-            let segmentsScanned = 0
-            let devicesFound = 0
+      await commandLedger.finish(command.id, outcome.success, outcome.result, outcome.error)
 
-            for (const [, state] of segmentStates) {
-              if (state.scanning) continue
+      if (outcome.acknowledged) {
+        await commandLedger.markAcked(command.id)
+      } else {
+        await acknowledgeFromLedger(command.id)
+      }
 
-              state.scanning = true
-              try {
-                const devices = await discoverDevices(state.segment.cidr, logger)
-                devicesFound += devices.length
+      if (outcome.afterAck) {
+        await outcome.afterAck()
+      }
+    }
+  }
 
-                if (devices.length > 0) {
-                  await client.uploadDiscoveredDevices(state.segment.id, devices)
-                }
-                segmentsScanned++
-              } finally {
-                state.scanning = false
-              }
-            }
+  /**
+   * Validate commands from any delivery channel before processing them.
+   * Malformed commands that still carry an id are recorded and acknowledged as failed.
+   */
+  async function handleInboundCommands(commands: unknown[], source: string) {
+    for (const raw of commands) {
+      const validation = validator.command(raw, source)
+      if ('command' in validation) {
+        await processCommands([validation.command])
+        continue
+      }
 
-            await client.acknowledgeCommand(command.id, true, {
-              segments_scanned: segmentsScanned,
-              devices_found: devicesFound,
-            })
-            logger.info(`scan_now completed: ${segmentsScanned} segments, ${devicesFound} devices`)
-            break
-          }
+      if (validation.id && commandLedger.begin(validation.id, 'invalid')) {
+        await commandLedger.finish(validation.id, false, undefined, validation.error)
+        await acknowledgeFromLedger(validation.id)
+      }
+    }
+  }
 
-          case 'scan_segment': {
-            // Scan a specific segment
-            const segmentId = command.payload?.segment_id as string
-            if (!segmentId) {
-              await client.acknowledgeCommand(command.id, false, undefined, 'segment_id required')
-              break
-            }
+  /**
+   * A command we have already seen was delivered again.
+   * If it already finished, the dashboard never got our ack - send the stored result again.
+   */
+  async function handleDuplicateCommand(command: AgentCommand) {
+    const entry = commandLedger.get(command.id)
+    if (!entry) return
 
-            const state = segmentStates.get(segmentId)
-            if (!state) {
-              await client.acknowledgeCommand(command.id, false, undefined, 'Segment not found')
-              break
-            }
+    if (entry.state === 'received' || entry.state === 'running') {
+      logger.debug(`Command ${command.id} already in progress, skipping duplicate delivery`)
+      return
+    }
 
-            if (state.scanning) {
-              await client.acknowledgeCommand(command.id, false, undefined, 'Segment already scanning')
-              break
-            }
+    logger.info(`Command ${command.command_type} (${command.id}) already ${entry.state}, re-acknowledging`)
+    await acknowledgeFromLedger(command.id)
+  }
 
-            state.scanning = true
-            try {
-              const devices = await discoverDevices(state.segment.cidr, logger)
-              if (devices.length > 0) {
-                await client.uploadDiscoveredDevices(segmentId, devices)
-              }
+  /**
+   * Send (or re-send) the acknowledgement for a finished command using its stored result
+   */
+  async function acknowledgeFromLedger(commandId: string): Promise<boolean> {
+    const entry = commandLedger.get(commandId)
+    if (!entry || (entry.state !== 'completed' && entry.state !== 'failed')) {
+      return false
+    }
 
-              await client.acknowledgeCommand(command.id, true, {
-                segment_id: segmentId,
-                devices_found: devices.length,
-              })
-              logger.info(`scan_segment completed: ${devices.length} devices found`)
-            } finally {
-              state.scanning = false
+    try {
+      await transport.acknowledgeCommand(entry.id, entry.state === 'completed', entry.result, entry.error)
+      await commandLedger.markAcked(entry.id)
+      return true
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      logger.error(`Failed to acknowledge command ${entry.id}: ${errorMsg}`)
+      return false
+    }
+  }
+
+  /**
+   * Retry acknowledgements that failed to reach the dashboard (called once the heartbeat succeeds)
+   */
+  async function retryPendingAcks() {
+    for (const entry of commandLedger.getUnacknowledged()) {
+      await acknowledgeFromLedger(entry.id)
+    }
+  }
+
+  /**
+   * Execute a single command and describe how it should be acknowledged
+   */
+  async function executeCommand(command: AgentCommand): Promise<CommandOutcome> {
+    switch (command.command_type) {
+      case 'ping': {
+        // Respond with pong and latency
+        const result = await client.sendPong(command.id)
+        logger.info(`Ping response sent, latency: ${result.latency_ms}ms`)
+        // Pong acknowledgement is handled by the ping endpoint
+        return { success: true, result: { latency_ms: result.latency_ms }, acknowledged: true }
+      }
+
+      case 'scan_now': {
+        // Trigger immediate scan of all segments
+        logger.info('Executing scan_now command')
+        let segmentsScanned = 0
+        let devicesFound = 0
+
+        for (const [, state] of segmentStates) {
+          if (state.scanning) continue
+
+          state.scanning = true
+          try {
+            const devices = await discoverDevices(state.segment.cidr, logger)
+            devicesFound += devices.length
+
+            if (devices.length > 0) {
+              await deliverDiscoveredDevices(state.segment.id, devices)
             }
-            break
+            segmentsScanned++
+          } finally {
+            state.scanning = false
           }
+        }
+
+        logger.info(`scan_now completed: ${segmentsScanned} segments, ${devicesFound} devices`)
+        return {
+          success: true,
+          result: { segments_scanned: segmentsScanned, devices_found: devicesFound },
+        }
+      }
+
+      case 'scan_segment': {
+        // Scan a specific segment
+        const segmentId = command.payload?.segment_id as string
+        if (!segmentId) {
+          return { success: false, error: 'segment_id required' }
+        }
+
+        const state = segmentStates.get(segmentId)
+        if (!state) {
+          return { success: false, error: 'Segment not found' }
+        }
 
-          case 'restart': {
-            // Acknowledge first, then restart
-            logger.info('Executing restart command')
-            await client.acknowledgeCommand(command.id, true, { restarting: true })
+        if (state.scanning) {
+          return { success: false, error: 'Segment already scanning' }
+        }
+
+        state.scanning = true
+        try {
+          const devices = await discoverDevices(state.segment.cidr, logger)
+          if (devices.length > 0) {
+            await deliverDiscoveredDevices(segmentId, devices)
+          }
 
+          logger.info(`scan_segment completed: ${devices.length} devices found`)
+          return {
+            success: true,
+            result: { segment_id: segmentId, devices_found: devices.length },
+          }
+        } finally {
+          state.scanning = false
+        }
+      }
+
+      case 'restart': {
+        // Acknowledge first, then restart
+        logger.info('Executing restart command')
+        return {
+          success: true,
+          result: { restarting: true },
+          afterAck: async () => {
             // Give time for acknowledgment to be sent
             await new Promise(resolve => setTimeout(resolve, 1000))
 
             logger.info('Restarting agent...')
             process.exit(0) // Rely on process manager (systemd/pm2) to restart
-            break
-          }
-
-          case 'upgrade': {
-            const targetVersion = command.payload?.target_version as string
-            const downloadUrl = command.payload?.download_url as string
+          },
+        }
+      }
 
-            logger.info(`Upgrade requested: ${VERSION} -> ${targetVersion}`)
+      case 'upgrade': {
+        const targetVersion = command.payload?.target_version as string
+        const downloadUrl = command.payload?.download_url as string
 
-            if (!targetVersion || !downloadUrl) {
-              await client.acknowledgeCommand(command.id, false, undefined, 'target_version and download_url required')
-              break
-            }
+        logger.info(`Upgrade requested: ${VERSION} -> ${targetVersion}`)
 
-            // Check if auto-upgrade is allowed for this version
-            if (!config.enableAutoUpgrade) {
-              logger.warn('Auto-upgrade is disabled. Set ENABLE_AUTO_UPGRADE=true to allow.')
-              await client.acknowledgeCommand(command.id, true, {
-                current_version: VERSION,
-                target_version: targetVersion,
-                message: 'Auto-upgrade disabled - manual upgrade required',
-              })
-              break
-            }
+        if (!targetVersion || !downloadUrl) {
+          return { success: false, error: 'target_version and download_url required' }
+        }
 
-            if (!shouldAutoUpgrade(targetVersion, VERSION, config.autoUpgradeOnMinor)) {
-              logger.warn(`Auto-upgrade policy blocks ${VERSION} -> ${targetVersion}`)
-              await client.acknowledgeCommand(command.id, true, {
-                current_version: VERSION,
-                target_version: targetVersion,
-                message: 'Upgrade blocked by policy (major version change)',
-              })
-              break
-            }
+        // Check if auto-upgrade is allowed for this version
+        if (!config.enableAutoUpgrade) {
+          logger.warn('Auto-upgrade is disabled. Set ENABLE_AUTO_UPGRADE=true to allow.')
+          return {
+            success: true,
+            result: {
+              current_version: VERSION,
+              target_version: targetVersion,
+              message: 'Auto-upgrade disabled - manual upgrade required',
+            },
+          }
+        }
 
-            // Acknowledge before starting (upgrade may exit the process)
-            await client.acknowledgeCommand(command.id, true, {
+        if (!shouldAutoUpgrade(targetVersion, VERSION, config.autoUpgradeOnMinor)) {
+          logger.warn(`Auto-upgrade policy blocks ${VERSION} -> ${targetVersion}`)
+          return {
+            success: true,
+            result: {
               current_version: VERSION,
               target_version: targetVersion,
-              message: 'Upgrade starting...',
-            })
+              message: 'Upgrade blocked by policy (major version change)',
+            },
+          }
+        }
 
+        // Acknowledge before starting (upgrade may exit the process)
+        return {
+          success: true,
+          result: {
+            current_version: VERSION,
+            target_version: targetVersion,
+            message: 'Upgrade starting...',
+          },
+          afterAck: async () => {
             // Perform the upgrade (this may exit the process)
-            const result = await performUpgrade(targetVersion, downloadUrl, logger)
+            const result = await performUpgrade(targetVersion, downloadUrl, logger, agents)
 
             if (!result.success) {
               logger.error(`Upgrade failed: ${result.message}`)
               // Process didn't exit, so the upgrade failed before the swap
             }
-            break
-          }
+          },
+        }
+      }
 
-          case 'update_config': {
-            const updates = command.payload ?? {}
-            const applied: Record<string, unknown> = {}
+      case 'rotate_key': {
+        const newApiKey = command.payload?.new_api_key
 
-            if (typeof updates.heartbeatInterval === 'number' && updates.heartbeatInterval >= 10) {
-              config.heartbeatInterval = updates.heartbeatInterval * 1000
-              applied.heartbeatInterval = updates.heartbeatInterval
-            }
-            if (typeof updates.statusCheckInterval === 'number' && updates.statusCheckInterval >= 5) {
-              config.statusCheckInterval = updates.statusCheckInterval * 1000
-              applied.statusCheckInterval = updates.statusCheckInterval
-            }
-            if (typeof updates.statusFailureThreshold === 'number' && updates.statusFailureThreshold >= 0) {
-              config.statusFailureThreshold = updates.statusFailureThreshold
-              applied.statusFailureThreshold = updates.statusFailureThreshold
-            }
-            if (typeof updates.logLevel === 'string' && ['debug', 'info', 'warn', 'error'].includes(updates.logLevel)) {
-              config.logLevel = updates.logLevel as typeof config.logLevel
-              applied.logLevel = updates.logLevel
-            }
-            if (typeof updates.enableAutoScan === 'boolean') {
-              config.enableAutoScan = updates.enableAutoScan
-              applied.enableAutoScan = updates.enableAutoScan
-            }
-            if (typeof updates.autoScanInterval === 'number' && updates.autoScanInterval >= 30) {
-              config.autoScanInterval = updates.autoScanInterval
-              applied.autoScanInterval = updates.autoScanInterval
-            }
+        if (typeof newApiKey !== 'string' || !newApiKey) {
+          return { success: false, error: 'new_api_key required' }
+        }
+        if (!validateApiKey(newApiKey)) {
+          return { success: false, error: 'new_api_key has an invalid format' }
+        }
 
-            logger.info(`Config updated: ${JSON.stringify(applied)}`)
-            await client.acknowledgeCommand(command.id, true, { applied })
-            break
-          }
+        logger.info('API key rotation requested, verifying new key...')
 
-          default:
-            logger.warn(`Unknown command type: ${command.command_type}`)
-            await client.acknowledgeCommand(command.id, false, undefined, `Unknown command: ${command.command_type}`)
+        // Prove the new key works before touching anything
+        try {
+          const probe = new DashboardClient(config.dashboardUrl, newApiKey, logger, agents)
+          const response = await probe.heartbeat(VERSION, os.hostname(), {
+            client_cert_expires_at: agents.clientCertificate?.expiresAt,
+          })
+          if (agentId && response.agent_id !== agentId) {
+            return { success: false, error: 'New API key belongs to a different agent' }
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+          logger.error(`New API key failed verification: ${errorMsg}`)
+          return { success: false, error: `New API key failed verification: ${errorMsg}` }
         }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-        logger.error(`Command ${command.command_type} failed: ${errorMsg}`)
 
+        // Persist before swapping so a crash can't leave the agent running on a key it will forget
         try {
-          await client.acknowledgeCommand(command.id, false, undefined, errorMsg)
-        } catch {
-          logger.error(`Failed to acknowledge command failure: ${command.id}`)
+          await storeRotatedApiKey(config.dataDir, newApiKey, config.apiKeyFingerprint)
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+          logger.error(`Failed to persist rotated API key: ${errorMsg}`)
+          return { success: false, error: `Failed to persist new API key: ${errorMsg}` }
         }
+
+        registerSecret(newApiKey)
+        config.apiKey = newApiKey
+        client.setApiKey(newApiKey)
+        socketClient?.setApiKey(newApiKey)
+
+        logger.info('API key rotated')
+        uiServer.addLog('info', 'API key rotated')
+        return { success: true, result: { rotated: true } }
       }
+
+      case 'update_config': {
+        const updates = command.payload ?? {}
+        const applied: Record<string, unknown> = {}
+
+        if (typeof updates.heartbeatInterval === 'number' && updates.heartbeatInterval >= 10) {
+          config.heartbeatInterval = updates.heartbeatInterval * 1000
+          applied.heartbeatInterval = updates.heartbeatInterval
+        }
+        if (typeof updates.statusCheckInterval === 'number' && updates.statusCheckInterval >= 5) {
+          config.statusCheckInterval = updates.statusCheckInterval * 1000
+          applied.statusCheckInterval = updates.statusCheckInterval
+        }
+        if (typeof updates.statusFailureThreshold === 'number' && updates.statusFailureThreshold >= 0) {
+          config.statusFailureThreshold = updates.statusFailureThreshold
+          applied.statusFailureThreshold = updates.statusFailureThreshold
+        }
+        if (typeof updates.logLevel === 'string' && ['debug', 'info', 'warn', 'error'].includes(updates.logLevel)) {
+          config.logLevel = updates.logLevel as typeof config.logLevel
+          applied.logLevel = updates.logLevel
+        }
+        if (typeof updates.enableAutoScan === 'boolean') {
+          config.enableAutoScan = updates.enableAutoScan
+          applied.enableAutoScan = updates.enableAutoScan
+        }
+        if (typeof updates.autoScanInterval === 'number' && updates.autoScanInterval >= 30) {
+          config.autoScanInterval = updates.autoScanInterval
+          applied.autoScanInterval = updates.autoScanInterval
+        }
+
+        logger.info(`Config updated: ${JSON.stringify(applied)}`)
+        return { success: true, result: { applied } }
+      }
+
+      default:
+        logger.warn(`Unknown command type: ${command.command_type}`)
+        return { success: false, error: `Unknown command: ${command.command_type}` }
     }
   }
 
@@ -913,6 +1478,7 @@ async function main() {
                     name: device.hostname || device.ip_address,
                     ip: device.ip_address,
                     mac: device.mac_address,
+                    segmentId: state.segment.id,
                     status: existing?.status || 'unknown',
                     responseTime: existing?.responseTime,
                     lastCheck: existing?.lastCheck,
@@ -922,7 +1488,7 @@ async function main() {
                 uiServer.updateDevices(Array.from(discoveredDevices.values()))
 
                 if (devices.length > 0) {
-                  await client.uploadDiscoveredDevices(state.segment.id, devices)
+                  await deliverDiscoveredDevices(state.segment.id, devices)
                 }
                 segmentsScanned++
               } finally {
@@ -958,6 +1524,9 @@ async function main() {
   // Run autoScanCheck once
   autoScanCheck()
 
+  scheduler.start()
+  reportBatcher.start()
+
   // Start concurrent loops
   Promise.all([
     heartbeatLoop(),
@@ -970,8 +1539,17 @@ async function main() {
   })
 }
 
-// Start the agent
-main().catch(error => {
-  console.error('Failed to start agent:', error)
-  process.exit(1)
-})
+// `secret ...` manages the local secret store; `history ...` and `sla ...` query a running agent, instead of starting one
+if (process.argv[2] === 'secret') {
+  runSecretCommand(process.argv.slice(3)).then(code => process.exit(code))
+} else if (process.argv[2] === 'history') {
+  runHistoryCommand(process.argv.slice(3)).then(code => process.exit(code))
+} else if (process.argv[2] === 'sla') {
+  runSlaCommand(process.argv.slice(3)).then(code => process.exit(code))
+} else {
+  // Start the agent
+  main().catch(error => {
+    console.error('Failed to start agent:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { LatencyBaseline } from './baseline.js'
+
+function warmUp(baseline: LatencyBaseline, key: string, ms: number, count = 20): void {
+  for (let i = 0; i < count; i++) {
+    baseline.observe(key, ms + (i % 3))
+  }
+}
+
+describe('LatencyBaseline', () => {
+  it('reports no stats and never degrades before warming up', () => {
+    const baseline = new LatencyBaseline({ factor: 3, consecutive: 1, warmup: 10 })
+
+    expect(baseline.observe('web-1', 2)).toEqual({ degraded: false, stats: null })
+    expect(baseline.observe('web-1', 400).degraded).toBe(false)
+  })
+
+  it('degrades after N consecutive anomalies and recovers on a normal sample', () => {
+    const baseline = new LatencyBaseline({ factor: 3, consecutive: 3 })
+    warmUp(baseline, 'web-1', 10)
+
+    expect(baseline.observe('web-1', 400).degraded).toBe(false)
+    expect(baseline.observe('web-1', 400).degraded).toBe(false)
+    const verdict = baseline.observe('web-1', 400)
+    expect(verdict.degraded).toBe(true)
+    expect(verdict.stats).toMatchObject({ p50_ms: 11, p95_ms: 12, anomalies: 3 })
+    expect(verdict.stats!.baseline_ms).toBeLessThan(15)
+
+    expect(baseline.observe('web-1', 11).degraded).toBe(false)
+  })
+
+  it('does not learn anomalous samples', () => {
+    const baseline = new LatencyBaseline({ factor: 3, consecutive: 2 })
+    warmUp(baseline, 'web-1', 10)
+
+    for (let i = 0; i < 50; i++) {
+      baseline.observe('web-1', 400)
+    }
+    const verdict = baseline.observe('web-1', 400)
+    expect(verdict.degraded).toBe(true)
+    expect(verdict.stats!.p95_ms).toBe(12)
+  })
+
+  it('relearns the baseline after a sustained shift', () => {
+    const baseline = new LatencyBaseline({ factor: 3, consecutive: 2, relearnAfter: 5, warmup: 10 })
+    warmUp(baseline, 'web-1', 10)
+
+    for (let i = 0; i < 4; i++) {
+      baseline.observe('web-1', 400)
+    }
+    expect(baseline.observe('web-1', 400)).toEqual({ degraded: false, stats: null })
+
+    warmUp(baseline, 'web-1', 400, 9)
+    const verdict = baseline.observe('web-1', 401)
+    expect(verdict.degraded).toBe(false)
+    expect(verdict.stats!.p50_ms).toBeGreaterThanOrEqual(400)
+  })
+
+  it('ignores small absolute jumps on very fast hosts', () => {
+    const baseline = new LatencyBaseline({ factor: 3, consecutive: 1 })
+    warmUp(baseline, 'switch', 1)
+
+    expect(baseline.observe('switch', 6).degraded).toBe(false)
+    expect(baseline.observe('switch', 40).degraded).toBe(true)
+  })
+})
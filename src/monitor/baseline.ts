@@ -0,0 +1,164 @@
+/**
+ * Persistable latency history of one key
+ */
+export interface BaselineEntry {
+  key: string
+  ewma_ms: number
+  // Most recent normal samples, oldest first
+  samples: number[]
+  // Consecutive anomalous samples so far
+  anomalies: number
+  updated_at: number
+}
+
+/**
+ * Baseline figures reported alongside a status
+ */
+export interface LatencyStats {
+  baseline_ms: number
+  p50_ms: number
+  p95_ms: number
+  // Upper bound of normal latency; samples above it are anomalous
+  threshold_ms: number
+  samples: number
+  anomalies: number
+}
+
+export interface LatencyBaselineOptions {
+  // A sample above max(EWMA, p95) times this factor is anomalous
+  factor: number
+  // Consecutive anomalous samples before the key is degraded
+  consecutive: number
+  // Consecutive anomalous samples after which the baseline is relearned from scratch (0 = never)
+  relearnAfter?: number
+  // EWMA smoothing (weight of the newest sample)
+  alpha?: number
+  // Normal samples kept for percentiles
+  window?: number
+  // Samples needed before anomalies are detected at all
+  warmup?: number
+}
+
+export interface BaselineVerdict {
+  degraded: boolean
+  // null until the baseline has warmed up
+  stats: LatencyStats | null
+}
+
+// Ignore deviations smaller than this, so a 1ms LAN host going to 4ms isn't an anomaly
+const MIN_DEVIATION_MS = 5
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+}
+
+/**
+ * Rolling per-key latency baseline: an EWMA of response times plus p50/p95 over a window
+ * of recent samples.
+ *
+ * Anomalous samples are not learned, so a host that stays slow stays degraded instead of
+ * the baseline drifting up to meet it. After `relearnAfter` anomalies in a row the slower
+ * latency is taken as the new normal and the baseline warms up again from it.
+ */
+export class LatencyBaseline {
+  private entries = new Map<string, BaselineEntry>()
+  private factor: number
+  private consecutive: number
+  private relearnAfter: number
+  private alpha: number
+  private window: number
+  private warmup: number
+
+  constructor(options: LatencyBaselineOptions) {
+    this.factor = options.factor
+    this.consecutive = Math.max(1, options.consecutive)
+    this.relearnAfter = Math.max(0, options.relearnAfter ?? 0)
+    this.alpha = options.alpha ?? 0.1
+    this.window = options.window ?? 100
+    this.warmup = options.warmup ?? 10
+  }
+
+  /**
+   * Record a response time and report whether the key is degraded by latency
+   */
+  observe(key: string, responseTimeMs: number): BaselineVerdict {
+    let entry = this.entries.get(key)
+    if (!entry) {
+      entry = { key, ewma_ms: responseTimeMs, samples: [], anomalies: 0, updated_at: 0 }
+      this.entries.set(key, entry)
+    }
+    entry.updated_at = Date.now()
+
+    let warm = entry.samples.length >= this.warmup
+    const threshold = warm ? this.threshold(entry) : Infinity
+
+    if (responseTimeMs > threshold && this.relearnAfter > 0 && entry.anomalies + 1 >= this.relearnAfter) {
+      // The shift has lasted long enough to be the new normal
+      entry.ewma_ms = responseTimeMs
+      entry.samples = [responseTimeMs]
+      entry.anomalies = 0
+      warm = false
+    } else if (responseTimeMs > threshold) {
+      entry.anomalies++
+    } else {
+      entry.anomalies = 0
+      entry.ewma_ms = this.alpha * responseTimeMs + (1 - this.alpha) * entry.ewma_ms
+      entry.samples.push(responseTimeMs)
+      if (entry.samples.length > this.window) {
+        entry.samples.shift()
+      }
+    }
+
+    return {
+      degraded: entry.anomalies >= this.consecutive,
+      stats: warm ? this.stats(entry) : null,
+    }
+  }
+
+  /**
+   * Drop keys that are no longer checked. Returns how many were removed.
+   */
+  prune(activeKeys: Set<string>): number {
+    let removed = 0
+    for (const key of this.entries.keys()) {
+      if (!activeKeys.has(key)) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  snapshot(): BaselineEntry[] {
+    return Array.from(this.entries.values(), entry => ({ ...entry, samples: [...entry.samples] }))
+  }
+
+  /**
+   * Reload persisted entries. Keys already tracked since startup win over the snapshot.
+   */
+  restore(entries: BaselineEntry[]): void {
+    for (const entry of entries) {
+      if (!this.entries.has(entry.key)) {
+        this.entries.set(entry.key, { ...entry, samples: entry.samples.slice(-this.window) })
+      }
+    }
+  }
+
+  private threshold(entry: BaselineEntry): number {
+    const p95 = percentile([...entry.samples].sort((a, b) => a - b), 0.95)
+    const base = Math.max(entry.ewma_ms, p95)
+    return Math.max(base * this.factor, entry.ewma_ms + MIN_DEVIATION_MS)
+  }
+
+  private stats(entry: BaselineEntry): LatencyStats {
+    const sorted = [...entry.samples].sort((a, b) => a - b)
+    return {
+      baseline_ms: Math.round(entry.ewma_ms * 10) / 10,
+      p50_ms: percentile(sorted, 0.5),
+      p95_ms: percentile(sorted, 0.95),
+      threshold_ms: Math.round(this.threshold(entry) * 10) / 10,
+      samples: entry.samples.length,
+      anomalies: entry.anomalies,
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { resolveDeviceChecks, hasExplicitChecks, checkIntervalMs, rollupStatus } from './checks.js'
+import type { DeviceToMonitor } from '../api/client.js'
+
+const device: DeviceToMonitor = {
+  id: 'web-1',
+  hostname: 'web-1.example.com',
+  check_type: 'http',
+  url: 'https://web-1.example.com/',
+  is_monitored: true,
+  check_interval_seconds: 120,
+}
+
+describe('resolveDeviceChecks', () => {
+  it('builds a single check from the legacy fields', () => {
+    expect(resolveDeviceChecks(device)).toEqual([
+      expect.objectContaining({ id: 'http', check_type: 'http', url: 'https://web-1.example.com/', interval_seconds: 120 }),
+    ])
+  })
+
+  it('uses the check list and skips disabled checks', () => {
+    const checks = resolveDeviceChecks({
+      ...device,
+      checks: [
+        { id: 'ping', check_type: 'ping' },
+        { id: 'ssh', check_type: 'tcp', port: 22, interval_seconds: 30 },
+        { id: 'health', check_type: 'http', url: 'https://web-1.example.com/health', enabled: false },
+      ],
+    })
+
+    expect(checks.map(c => c.id)).toEqual(['ping', 'ssh'])
+    expect(checkIntervalMs(checks[0], device)).toBe(120_000)
+    expect(checkIntervalMs(checks[1], device)).toBe(30_000)
+  })
+})
+
+describe('hasExplicitChecks', () => {
+  it('is true only for a non-empty check list', () => {
+    expect(hasExplicitChecks(device)).toBe(false)
+    expect(hasExplicitChecks({ ...device, checks: [] })).toBe(false)
+    expect(hasExplicitChecks({ ...device, checks: [{ id: 'ping', check_type: 'ping' }] })).toBe(true)
+  })
+})
+
+describe('rollupStatus', () => {
+  it('is online or offline only when every check agrees', () => {
+    expect(rollupStatus(['online', 'online'])).toBe('online')
+    expect(rollupStatus(['offline', 'offline'])).toBe('offline')
+    expect(rollupStatus(['online', 'offline'])).toBe('degraded')
+    expect(rollupStatus(['online', 'degraded'])).toBe('degraded')
+    expect(rollupStatus(['flapping', 'flapping'])).toBe('flapping')
+  })
+
+  it('ignores checks without a result yet', () => {
+    expect(rollupStatus(['online', 'unknown'])).toBe('online')
+    expect(rollupStatus(['unknown'])).toBe('unknown')
+  })
+})
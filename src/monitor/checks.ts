@@ -0,0 +1,153 @@
+import type { Logger } from '../utils/logger.js'
+import type { DeviceCheck, DeviceToMonitor, StatusReport } from '../api/client.js'
+import { checkSsl, type SslDetails } from '../scanner/ssl.js'
+import { STARTTLS_PORTS } from '../scanner/starttls.js'
+import { checkDns } from '../scanner/dns.js'
+import { checkHttp, type HttpTimings } from '../scanner/http.js'
+import { checkTcpPort } from '../scanner/tcp.js'
+import { pingHost, pingQuality, type PingQualityStats } from '../scanner/ping.js'
+
+export type CheckStatus = StatusReport['status']
+// Statuses a probe can observe; 'flapping' and 'unreachable' are derived by the agent
+export type ObservedStatus = Exclude<CheckStatus, 'flapping' | 'unreachable'>
+
+export interface CheckResult {
+  status: ObservedStatus
+  response_time_ms: number | null
+  error?: string
+  ssl_expiry_at?: string
+  ssl_issuer?: string
+  ssl_subject?: string
+  ssl_details?: SslDetails
+  ping_quality?: PingQualityStats
+  http_timings?: HttpTimings
+}
+
+const DEFAULT_INTERVAL_SECONDS = 60
+
+// ping_quality defaults: 20 packets 200ms apart, degraded above 5% loss or 30ms jitter
+const PING_QUALITY_DEFAULTS = { count: 20, intervalMs: 200, maxLossPercent: 5, maxJitterMs: 30 }
+
+/**
+ * Whether the dashboard configured a `checks` list for the device
+ */
+export function hasExplicitChecks(device: DeviceToMonitor): boolean {
+  return !!device.checks && device.checks.length > 0
+}
+
+/**
+ * The checks to run for a device. Devices without a `checks` list get a single check built
+ * from the legacy top-level fields, identified by its check type.
+ */
+export function resolveDeviceChecks(device: DeviceToMonitor): DeviceCheck[] {
+  if (device.checks && device.checks.length > 0) {
+    return device.checks.filter(c => c.enabled !== false)
+  }
+
+  return [{
+    id: device.check_type,
+    check_type: device.check_type,
+    port: device.port,
+    url: device.url,
+    interval_seconds: device.check_interval_seconds,
+    ssl_expiry_warn_days: device.ssl_expiry_warn_days,
+    dns_expected_ip: device.dns_expected_ip,
+  }]
+}
+
+/**
+ * Check interval in ms, falling back to the device interval and then 60 seconds
+ */
+export function checkIntervalMs(check: DeviceCheck, device: DeviceToMonitor): number {
+  return (check.interval_seconds || device.check_interval_seconds || DEFAULT_INTERVAL_SECONDS) * 1000
+}
+
+/**
+ * Run one check against a target host
+ */
+export async function runCheck(target: string, check: DeviceCheck, logger: Logger): Promise<CheckResult> {
+  switch (check.check_type) {
+    case 'ssl': {
+      const port = check.port || (check.ssl_starttls ? STARTTLS_PORTS[check.ssl_starttls] : 443)
+      const result = await checkSsl(target, logger, port, check.ssl_expiry_warn_days || 30, undefined, {
+        starttls: check.ssl_starttls,
+        ca: check.ssl_ca,
+        policy: check.ssl_policy,
+      })
+      return {
+        status: result.status,
+        response_time_ms: result.response_time_ms,
+        error: result.error,
+        ssl_expiry_at: result.ssl_expiry_at,
+        ssl_issuer: result.ssl_issuer,
+        ssl_subject: result.ssl_subject,
+        ssl_details: result.details,
+      }
+    }
+
+    case 'dns': {
+      const result = await checkDns(target, logger, check.dns_expected_ip)
+      return { status: result.status, response_time_ms: result.response_time_ms, error: result.error }
+    }
+
+    case 'http': {
+      const result = await checkHttp(check.url || `https://${target}`, logger, undefined, {
+        method: check.http_method,
+        headers: check.http_headers,
+        body: check.http_body,
+        auth: check.http_auth,
+        expectedStatus: check.expected_status_codes,
+        maxRedirects: check.max_redirects,
+        tlsVerify: check.tls_verify,
+        bodyContains: check.body_contains,
+        bodyRegex: check.body_regex,
+        jsonPath: check.json_path,
+        jsonExpected: check.json_expected,
+        maxResponseBytes: check.max_response_bytes,
+      })
+      return {
+        status: result.status,
+        response_time_ms: result.response_time_ms,
+        error: result.error,
+        http_timings: result.timings,
+      }
+    }
+
+    case 'tcp': {
+      const result = await checkTcpPort(target, check.port || 443, logger)
+      return { status: result.status, response_time_ms: result.response_time_ms, error: result.error }
+    }
+
+    case 'ping_quality': {
+      const result = await pingQuality(target, logger, {
+        count: check.ping_count ?? PING_QUALITY_DEFAULTS.count,
+        intervalMs: check.ping_interval_ms ?? PING_QUALITY_DEFAULTS.intervalMs,
+        maxLossPercent: check.max_packet_loss_percent ?? PING_QUALITY_DEFAULTS.maxLossPercent,
+        maxJitterMs: check.max_jitter_ms ?? PING_QUALITY_DEFAULTS.maxJitterMs,
+      })
+      return {
+        status: result.status,
+        response_time_ms: result.response_time_ms,
+        error: result.error,
+        ping_quality: result.stats,
+      }
+    }
+
+    case 'ping':
+    default: {
+      const result = await pingHost(target, logger)
+      return { status: result.status, response_time_ms: result.response_time_ms, error: result.error }
+    }
+  }
+}
+
+/**
+ * Overall device status from the current status of each of its checks: the common status
+ * when every check agrees, degraded when they disagree. Checks without a result yet are ignored.
+ */
+export function rollupStatus(statuses: CheckStatus[]): CheckStatus {
+  const known = statuses.filter(s => s !== 'unknown')
+  if (known.length === 0) return 'unknown'
+  if (known.every(s => s === known[0])) return known[0]
+  return 'degraded'
+}
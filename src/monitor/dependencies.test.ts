@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { DependencyGraph } from './dependencies.js'
+import type { DeviceToMonitor, NetworkSegment } from '../api/client.js'
+import type { CheckStatus } from './checks.js'
+
+function device(id: string, ip: string, extra: Partial<DeviceToMonitor> = {}): DeviceToMonitor {
+  return { id, ip_address: ip, check_type: 'ping', is_monitored: true, network_segment_id: 'seg-branch', ...extra }
+}
+
+const segments: NetworkSegment[] = [{
+  id: 'seg-branch',
+  name: 'Branch',
+  cidr: '10.1.0.0/24',
+  scan_interval_seconds: 300,
+  segment_type: 'remote_monitor',
+  gateway_ip: '10.1.0.1',
+}]
+
+describe('DependencyGraph', () => {
+  it('makes devices depend on declared parents and their segment gateway', () => {
+    const graph = new DependencyGraph()
+    graph.update([
+      device('router', '10.1.0.1'),
+      device('switch', '10.1.0.2'),
+      device('nas', '10.1.0.20', { parent_device_ids: ['switch'] }),
+    ], segments)
+
+    expect(graph.parentsOf('router')).toEqual([])
+    expect(graph.parentsOf('switch')).toEqual(['router'])
+    expect(graph.parentsOf('nas')).toEqual(['switch', 'router'])
+  })
+
+  it('refers to gateways that are not dashboard devices by address', () => {
+    const graph = new DependencyGraph()
+    graph.update([device('nas', '10.1.0.20')], segments)
+
+    expect(graph.parentsOf('nas')).toEqual(['ip:10.1.0.1'])
+  })
+
+  it('finds a parent that is offline or itself unreachable', () => {
+    const graph = new DependencyGraph()
+    graph.update([
+      device('router', '10.1.0.1'),
+      device('switch', '10.1.0.2'),
+      device('nas', '10.1.0.20', { parent_device_ids: ['switch'] }),
+    ], segments)
+    const statuses: Record<string, CheckStatus> = { router: 'online', switch: 'unreachable' }
+    const statusOf = (ref: string) => statuses[ref] ?? 'unknown'
+
+    expect(graph.downParent('switch', statusOf)).toBeUndefined()
+    expect(graph.downParent('nas', statusOf)).toBe('switch')
+  })
+
+  it('keeps devices on a dependency cycle offline', () => {
+    const graph = new DependencyGraph()
+    const cyclic = graph.update([
+      device('router', '10.1.0.1', { parent_device_ids: ['firewall'] }),
+      device('firewall', '10.1.0.254', { parent_device_ids: ['switch'] }),
+      device('switch', '10.1.0.2'),
+      device('nas', '10.1.0.20', { parent_device_ids: ['switch'] }),
+    ], segments)
+    const statuses: Record<string, CheckStatus> = { router: 'offline', firewall: 'unreachable', switch: 'unreachable' }
+    const statusOf = (ref: string) => statuses[ref] ?? 'unknown'
+
+    // router -> firewall -> switch -> router (the segment gateway)
+    expect(cyclic.sort()).toEqual(['firewall', 'router', 'switch'])
+    expect(graph.downParent('router', statusOf)).toBeUndefined()
+    expect(graph.downParent('switch', statusOf)).toBeUndefined()
+    expect(graph.downParent('nas', statusOf)).toBe('switch')
+  })
+})
@@ -0,0 +1,86 @@
+import type { DeviceToMonitor, NetworkSegment } from '../api/client.js'
+import type { CheckStatus } from './checks.js'
+
+// Parent reference for a gateway that isn't a dashboard device; its status comes from discovery
+export const GATEWAY_REF_PREFIX = 'ip:'
+
+/**
+ * Parent/child reachability dependencies between monitored devices.
+ *
+ * A device depends on the parents the dashboard declares for it and on its segment's gateway.
+ * While a parent is offline (or itself unreachable), an offline child is reported as
+ * `unreachable` so a single root cause shows up once instead of once per host behind it.
+ * Parents that depend on the device themselves (a cycle) never make it unreachable.
+ */
+export class DependencyGraph {
+  private parents = new Map<string, string[]>()
+  // Per device, the parents that also depend on it, directly or transitively
+  private cyclicParents = new Map<string, Set<string>>()
+
+  /**
+   * Rebuild the graph from the current device list and segment assignment.
+   * Returns the devices whose dependencies form a cycle.
+   */
+  update(devices: DeviceToMonitor[], segments: NetworkSegment[]): string[] {
+    const idByIp = new Map(devices.filter(d => d.ip_address).map(d => [d.ip_address!, d.id]))
+    const gatewayBySegment = new Map(segments.filter(s => s.gateway_ip).map(s => [s.id, s.gateway_ip!]))
+
+    this.parents.clear()
+    for (const device of devices) {
+      const parents = new Set(device.parent_device_ids ?? [])
+
+      const gateway = device.network_segment_id ? gatewayBySegment.get(device.network_segment_id) : undefined
+      if (gateway && gateway !== device.ip_address) {
+        parents.add(idByIp.get(gateway) ?? `${GATEWAY_REF_PREFIX}${gateway}`)
+      }
+
+      parents.delete(device.id)
+      if (parents.size > 0) {
+        this.parents.set(device.id, Array.from(parents))
+      }
+    }
+
+    this.cyclicParents.clear()
+    for (const [deviceId, parents] of this.parents) {
+      const cyclic = parents.filter(ref => this.dependsOn(ref, deviceId))
+      if (cyclic.length > 0) {
+        this.cyclicParents.set(deviceId, new Set(cyclic))
+      }
+    }
+    return Array.from(this.cyclicParents.keys())
+  }
+
+  parentsOf(deviceId: string): string[] {
+    return this.parents.get(deviceId) ?? []
+  }
+
+  /**
+   * The first parent of a device that is down, if any. Parents that are themselves
+   * unreachable count as down, so suppression carries through chains of dependencies;
+   * parents on a cycle with the device are skipped, so a cycle can't suppress itself.
+   */
+  downParent(deviceId: string, statusOf: (ref: string) => CheckStatus): string | undefined {
+    const cyclic = this.cyclicParents.get(deviceId)
+    return this.parentsOf(deviceId).find(ref => {
+      if (cyclic?.has(ref)) return false
+      const status = statusOf(ref)
+      return status === 'offline' || status === 'unreachable'
+    })
+  }
+
+  /**
+   * Whether `ref` depends on `ancestor` through its parents, at any depth
+   */
+  private dependsOn(ref: string, ancestor: string): boolean {
+    const seen = new Set<string>()
+    const pending = [ref]
+    while (pending.length > 0) {
+      const current = pending.pop()!
+      if (current === ancestor) return true
+      if (seen.has(current)) continue
+      seen.add(current)
+      pending.push(...this.parentsOf(current))
+    }
+    return false
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseCron, isWindowOpen, MaintenanceSchedule } from './maintenance.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+// Sunday 2026-03-01
+const utc = (day: number, hour: number, minute = 0) => Date.UTC(2026, 2, day, hour, minute)
+
+describe('parseCron', () => {
+  it('expands ranges, lists and steps', () => {
+    const cron = parseCron('*/15 22-23 * 1,6-7 0')
+
+    expect([...cron.minute.values]).toEqual([0, 15, 30, 45])
+    expect([...cron.hour.values]).toEqual([22, 23])
+    expect([...cron.month.values]).toEqual([1, 6, 7])
+    expect(cron.dayOfWeek.values.has(0)).toBe(true)
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 22 * *')).toThrow('Expected 5 cron fields')
+    expect(() => parseCron('0 25 * * *')).toThrow('hour')
+    expect(() => parseCron('*/0 * * * *')).toThrow('step')
+  })
+})
+
+describe('isWindowOpen', () => {
+  // Sunday nights from 23:00 for two hours
+  const cron = parseCron('0 23 * * 0')
+
+  it('is open from the start for the duration, across midnight', () => {
+    expect(isWindowOpen(cron, 120, utc(1, 22, 59), true)).toBe(false)
+    expect(isWindowOpen(cron, 120, utc(1, 23, 0), true)).toBe(true)
+    expect(isWindowOpen(cron, 120, utc(2, 0, 59), true)).toBe(true)
+    expect(isWindowOpen(cron, 120, utc(2, 1, 0), true)).toBe(false)
+  })
+
+  it('only opens on matching days', () => {
+    expect(isWindowOpen(cron, 120, utc(3, 23, 30), true)).toBe(false)
+    expect(isWindowOpen(cron, 120, utc(8, 23, 30), true)).toBe(true)
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // 1st of the month or any Wednesday
+    const either = parseCron('0 2 1 * 3')
+    expect(isWindowOpen(either, 30, utc(1, 2, 10), true)).toBe(true)
+    expect(isWindowOpen(either, 30, utc(4, 2, 10), true)).toBe(true)
+    expect(isWindowOpen(either, 30, utc(5, 2, 10), true)).toBe(false)
+  })
+})
+
+describe('MaintenanceSchedule', () => {
+  it('matches devices by id, segment or tag', () => {
+    const schedule = new MaintenanceSchedule(mockLogger)
+    schedule.setWindows('dashboard', [
+      { id: 'switch-stack', schedule: '0 23 * * 0', duration_minutes: 120, timezone: 'utc', segment_ids: ['seg-core'] },
+      { id: 'printers', schedule: '0 * * * *', duration_minutes: 5, timezone: 'utc', tags: ['printer'] },
+    ])
+    const now = utc(1, 23, 30)
+
+    expect(schedule.activeWindow({ device_id: 'sw-1', segment_id: 'seg-core' }, now)?.id).toBe('switch-stack')
+    expect(schedule.activeWindow({ device_id: 'p-1', tags: ['printer'] }, now)).toBeUndefined()
+    expect(schedule.activeWindow({ device_id: 'p-1', tags: ['printer'] }, utc(1, 23, 2))?.id).toBe('printers')
+    expect(schedule.activeWindow({ device_id: 'web-1', segment_id: 'seg-dmz' }, now)).toBeUndefined()
+  })
+
+  it('keeps windows from each source separately', () => {
+    const schedule = new MaintenanceSchedule(mockLogger)
+    schedule.setWindows('local', [{ id: 'local', schedule: '* * * * *', duration_minutes: 1, device_ids: ['d1'] }])
+    schedule.setWindows('dashboard', [])
+
+    expect(schedule.activeWindow({ device_id: 'd1' })?.id).toBe('local')
+  })
+})
@@ -0,0 +1,195 @@
+import type { Logger } from '../utils/logger.js'
+import type { MaintenanceWindow } from '../api/client.js'
+
+interface CronField {
+  values: Set<number>
+  // '*' - matters for the day-of-month / day-of-week OR rule
+  wildcard: boolean
+}
+
+export interface CronSchedule {
+  minute: CronField
+  hour: CronField
+  dayOfMonth: CronField
+  month: CronField
+  dayOfWeek: CronField
+}
+
+// Inclusive bounds of each field; day-of-week accepts 7 as Sunday
+const FIELD_BOUNDS: [string, number, number][] = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7],
+]
+
+const MINUTE_MS = 60 * 1000
+
+function parseField(field: string, name: string, min: number, max: number): CronField {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${name} field: ${part}`)
+    }
+
+    let start = min
+    let end = max
+    if (range !== '*') {
+      const [startText, endText] = range.split('-')
+      start = Number(startText)
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText)
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+        throw new Error(`Invalid ${name} field: ${part}`)
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return { values, wildcard: field === '*' }
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports `*`, numbers, ranges, lists and steps. Throws on anything else.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 cron fields, got ${fields.length}`)
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, i) => {
+    const [name, min, max] = FIELD_BOUNDS[i]
+    return parseField(field, name, min, max)
+  })
+
+  // Sunday may be written as 0 or 7
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.add(0)
+  }
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek }
+}
+
+function timeParts(time: number, utc: boolean) {
+  const date = new Date(time)
+  return utc
+    ? { minute: date.getUTCMinutes(), hour: date.getUTCHours(), day: date.getUTCDate(), month: date.getUTCMonth() + 1, weekday: date.getUTCDay() }
+    : { minute: date.getMinutes(), hour: date.getHours(), day: date.getDate(), month: date.getMonth() + 1, weekday: date.getDay() }
+}
+
+function matchesDay(cron: CronSchedule, day: number, weekday: number): boolean {
+  const domMatch = cron.dayOfMonth.values.has(day)
+  const dowMatch = cron.dayOfWeek.values.has(weekday)
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) {
+    return domMatch || dowMatch
+  }
+  return domMatch && dowMatch
+}
+
+/**
+ * Latest scheduled start at or before `from`, searching back no further than `limit`.
+ * Skips whole months, days and hours that can't match, so long windows stay cheap.
+ */
+export function previousStart(cron: CronSchedule, from: number, limit: number, utc = false): number | null {
+  let time = Math.floor(from / MINUTE_MS) * MINUTE_MS
+
+  while (time >= limit) {
+    const parts = timeParts(time, utc)
+    const intoDay = (parts.hour * 60 + parts.minute) * MINUTE_MS
+
+    if (!cron.month.values.has(parts.month)) {
+      time -= (parts.day - 1) * 24 * 60 * MINUTE_MS + intoDay + MINUTE_MS
+    } else if (!matchesDay(cron, parts.day, parts.weekday)) {
+      time -= intoDay + MINUTE_MS
+    } else if (!cron.hour.values.has(parts.hour)) {
+      time -= (parts.minute + 1) * MINUTE_MS
+    } else if (!cron.minute.values.has(parts.minute)) {
+      time -= MINUTE_MS
+    } else {
+      return time
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether a window that starts on `cron` and lasts `durationMinutes` is open at `now`
+ */
+export function isWindowOpen(cron: CronSchedule, durationMinutes: number, now: number, utc = false): boolean {
+  return previousStart(cron, now, now - durationMinutes * MINUTE_MS + 1, utc) !== null
+}
+
+export interface MaintenanceTarget {
+  device_id?: string
+  segment_id?: string
+  tags?: string[]
+}
+
+interface ScheduledWindow {
+  window: MaintenanceWindow
+  cron: CronSchedule
+}
+
+/**
+ * Maintenance windows from every source (heartbeat, local file), matched against devices
+ */
+export class MaintenanceSchedule {
+  private logger: Logger
+  private sources = new Map<string, ScheduledWindow[]>()
+
+  constructor(logger: Logger) {
+    this.logger = logger
+  }
+
+  /**
+   * Replace the windows delivered by one source. Windows with an invalid schedule are skipped.
+   */
+  setWindows(source: string, windows: MaintenanceWindow[]): void {
+    const scheduled: ScheduledWindow[] = []
+    for (const window of windows) {
+      try {
+        scheduled.push({ window, cron: parseCron(window.schedule) })
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.warn(`Ignoring maintenance window ${window.id} from ${source}: ${errorMsg}`)
+      }
+    }
+
+    const previous = this.sources.get(source)?.length ?? 0
+    if (scheduled.length !== previous) {
+      this.logger.info(`Maintenance windows from ${source}: ${scheduled.length}`)
+    }
+    this.sources.set(source, scheduled)
+  }
+
+  /**
+   * The open window covering a device, if any
+   */
+  activeWindow(target: MaintenanceTarget, now = Date.now()): MaintenanceWindow | undefined {
+    for (const scheduled of this.sources.values()) {
+      for (const { window, cron } of scheduled) {
+        if (!MaintenanceSchedule.covers(window, target)) continue
+        if (isWindowOpen(cron, window.duration_minutes, now, window.timezone === 'utc')) {
+          return window
+        }
+      }
+    }
+    return undefined
+  }
+
+  private static covers(window: MaintenanceWindow, target: MaintenanceTarget): boolean {
+    if (target.device_id && window.device_ids?.includes(target.device_id)) return true
+    if (target.segment_id && window.segment_ids?.includes(target.segment_id)) return true
+    return !!target.tags?.some(tag => window.tags?.includes(tag))
+  }
+}
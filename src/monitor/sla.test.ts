@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { computeSla, combineSla, SlaReporter } from './sla.js'
+import { TimeSeriesStore, type RollupPoint } from './timeseries.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const MINUTE = 60 * 1000
+const BUCKET = 5 * MINUTE
+const base = Math.floor((Date.now() - 24 * 60 * MINUTE) / BUCKET) * BUCKET
+
+function bucket(index: number, up: number, down: number, maintenance = 0): RollupPoint {
+  const count = up + down + maintenance
+  return {
+    t: base + index * BUCKET, count, up, down, maintenance,
+    availability: up + down > 0 ? up / (up + down) : null,
+    min_ms: null, avg_ms: null, max_ms: null,
+  }
+}
+
+describe('computeSla', () => {
+  it('computes uptime, outages, MTTR and MTBF', () => {
+    const points = [
+      bucket(0, 5, 0),
+      bucket(1, 0, 5),
+      bucket(2, 4, 1), // outage continues and ends here
+      bucket(3, 5, 0),
+      bucket(4, 0, 5),
+      bucket(5, 5, 0),
+    ]
+
+    const sla = computeSla(points, base, base + 6 * BUCKET)
+
+    expect(sla.outages).toBe(2)
+    expect(sla.downtime_ms).toBe(11 * MINUTE)
+    expect(sla.uptime_ms).toBe(19 * MINUTE)
+    expect(sla.uptime_percent).toBeCloseTo((19 / 30) * 100, 3)
+    expect(sla.mttr_ms).toBe(5.5 * MINUTE)
+    expect(sla.mtbf_ms).toBe(9.5 * MINUTE)
+  })
+
+  it('excludes maintenance without ending an outage', () => {
+    const points = [
+      bucket(0, 0, 5),
+      bucket(1, 0, 0, 5),
+      bucket(2, 0, 5),
+      bucket(3, 5, 0),
+    ]
+
+    const sla = computeSla(points, base, base + 4 * BUCKET)
+
+    expect(sla.outages).toBe(1)
+    expect(sla.maintenance_ms).toBe(BUCKET)
+    expect(sla.uptime_percent).toBeCloseTo(100 / 3, 3)
+  })
+
+  it('clips buckets to the range', () => {
+    const sla = computeSla([bucket(0, 5, 0), bucket(1, 0, 5)], base + 4 * MINUTE, base + 6 * MINUTE)
+
+    expect(sla.uptime_ms).toBe(MINUTE)
+    expect(sla.downtime_ms).toBe(MINUTE)
+  })
+
+  it('reports no figures without data', () => {
+    expect(computeSla([], base, base + BUCKET)).toEqual({
+      uptime_percent: null, uptime_ms: 0, downtime_ms: 0, maintenance_ms: 0, outages: 0, mttr_ms: null, mtbf_ms: null,
+    })
+  })
+})
+
+describe('combineSla', () => {
+  it('weights devices by monitored time', () => {
+    const combined = combineSla([
+      computeSla([bucket(0, 5, 0), bucket(1, 5, 0)], base, base + 2 * BUCKET),
+      computeSla([bucket(0, 0, 5)], base, base + 2 * BUCKET),
+    ])
+
+    expect(combined.uptime_percent).toBeCloseTo((200 / 3), 3)
+    expect(combined.outages).toBe(1)
+    expect(combined.mttr_ms).toBe(BUCKET)
+  })
+})
+
+describe('SlaReporter', () => {
+  let dataDir: string
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(os.tmpdir(), 'vp-sla-'))
+  })
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('reports devices by dashboard id and segments by their members', async () => {
+    const store = new TimeSeriesStore({ dataDir }, mockLogger)
+    store.record('10.0.0.5', 'online', 3, false, base)
+    store.record('10.0.0.5', 'online', 3, false, base + MINUTE)
+    store.record('dev-2', 'offline', null, false, base)
+    await store.stop()
+
+    const reporter = new SlaReporter(store, {
+      seriesKey: device => device === 'dev-1' ? '10.0.0.5' : device,
+      segmentKeys: segmentId => segmentId === 'seg-1' ? ['10.0.0.5', 'dev-2'] : null,
+    })
+
+    const device = await reporter.device('dev-1', base, base + BUCKET)
+    expect(device).toMatchObject({ key: '10.0.0.5', uptime_percent: 100, outages: 0 })
+
+    const segment = await reporter.segment('seg-1', base, base + BUCKET)
+    expect(segment).toMatchObject({ segment_id: 'seg-1', outages: 1 })
+    expect(segment!.devices.map(d => d.key)).toEqual(['10.0.0.5', 'dev-2'])
+    expect(segment!.uptime_percent).toBe(50)
+
+    expect(await reporter.segment('seg-9', base, base + BUCKET)).toBeNull()
+  })
+
+  it('counts flapping results as downtime', async () => {
+    const store = new TimeSeriesStore({ dataDir }, mockLogger)
+    store.record('10.0.0.5', 'online', 3, false, base)
+    store.record('10.0.0.5', 'flapping', 3, false, base + MINUTE)
+    store.record('10.0.0.5', 'flapping', null, false, base + 2 * MINUTE)
+    store.record('10.0.0.5', 'online', 3, false, base + 3 * MINUTE)
+    await store.stop()
+
+    const reporter = new SlaReporter(store, { seriesKey: device => device, segmentKeys: () => null })
+    const device = await reporter.device('10.0.0.5', base, base + BUCKET)
+
+    expect(device).toMatchObject({ uptime_percent: 50, outages: 1 })
+  })
+})
@@ -0,0 +1,136 @@
+import type { RollupPoint, TimeSeriesStore } from './timeseries.js'
+
+// SLAs are computed from the 5-minute rollups, which are kept for the full rollup retention
+const BUCKET_MS = 5 * 60 * 1000
+
+export interface SlaSummary {
+  // up / (up + down) time, null when nothing was monitored outside maintenance
+  uptime_percent: number | null
+  uptime_ms: number
+  downtime_ms: number
+  // Time in maintenance windows, excluded from everything else
+  maintenance_ms: number
+  outages: number
+  // Mean time to recovery: downtime per outage
+  mttr_ms: number | null
+  // Mean time between failures: uptime per outage
+  mtbf_ms: number | null
+}
+
+export interface DeviceSla extends SlaSummary {
+  key: string
+  from: number
+  to: number
+}
+
+export interface SegmentSla extends SlaSummary {
+  segment_id: string
+  from: number
+  to: number
+  devices: DeviceSla[]
+}
+
+function summarize(uptimeMs: number, downtimeMs: number, maintenanceMs: number, outages: number): SlaSummary {
+  const monitored = uptimeMs + downtimeMs
+  return {
+    uptime_percent: monitored > 0 ? Math.round((uptimeMs / monitored) * 100000) / 1000 : null,
+    uptime_ms: Math.round(uptimeMs),
+    downtime_ms: Math.round(downtimeMs),
+    maintenance_ms: Math.round(maintenanceMs),
+    outages,
+    mttr_ms: outages > 0 ? Math.round(downtimeMs / outages) : null,
+    mtbf_ms: outages > 0 ? Math.round(uptimeMs / outages) : null,
+  }
+}
+
+/**
+ * SLA figures of one series from its 5-minute rollups, clipped to [from, to).
+ *
+ * Each bucket's time is split in proportion to its up, down and maintenance results (flapping
+ * results are rolled up as down); results with an unknown status and periods without data
+ * count for nothing. An outage starts at a
+ * bucket with down results and lasts until a bucket that only has up results, so outages are
+ * resolved to 5 minutes.
+ */
+export function computeSla(points: RollupPoint[], from: number, to: number): SlaSummary {
+  let uptime = 0
+  let downtime = 0
+  let maintenance = 0
+  let outages = 0
+  let inOutage = false
+
+  for (const point of points) {
+    const overlap = Math.min(point.t + BUCKET_MS, to) - Math.max(point.t, from)
+    if (overlap <= 0 || point.count === 0) continue
+
+    const perResult = overlap / point.count
+    uptime += point.up * perResult
+    downtime += point.down * perResult
+    maintenance += point.maintenance * perResult
+
+    if (point.down > 0) {
+      if (!inOutage) outages++
+      inOutage = true
+    } else if (point.up > 0) {
+      inOutage = false
+    }
+  }
+
+  return summarize(uptime, downtime, maintenance, outages)
+}
+
+/**
+ * Figures of a group of series, weighted by monitored time
+ */
+export function combineSla(summaries: SlaSummary[]): SlaSummary {
+  let uptime = 0
+  let downtime = 0
+  let maintenance = 0
+  let outages = 0
+  for (const summary of summaries) {
+    uptime += summary.uptime_ms
+    downtime += summary.downtime_ms
+    maintenance += summary.maintenance_ms
+    outages += summary.outages
+  }
+  return summarize(uptime, downtime, maintenance, outages)
+}
+
+export interface SlaReporterOptions {
+  // Series key of a device reference (dashboard device id or IP)
+  seriesKey: (device: string) => string
+  // Series keys of the devices in a segment, or null for an unknown segment
+  segmentKeys: (segmentId: string) => string[] | null
+}
+
+/**
+ * Uptime, outage count, MTTR and MTBF per device and segment over arbitrary ranges, computed
+ * from the local time-series store. Results taken during maintenance windows are excluded.
+ */
+export class SlaReporter {
+  private store: Pick<TimeSeriesStore, 'queryRollups'>
+  private options: SlaReporterOptions
+
+  constructor(store: Pick<TimeSeriesStore, 'queryRollups'>, options: SlaReporterOptions) {
+    this.store = store
+    this.options = options
+  }
+
+  async device(device: string, from: number, to: number): Promise<DeviceSla> {
+    const key = this.options.seriesKey(device)
+    const rollups = await this.store.queryRollups([key], '5m', from, to)
+    return { key, from, to, ...computeSla(rollups.get(key) ?? [], from, to) }
+  }
+
+  /**
+   * Returns null if the segment is unknown
+   */
+  async segment(segmentId: string, from: number, to: number): Promise<SegmentSla | null> {
+    const keys = this.options.segmentKeys(segmentId)
+    if (!keys) return null
+
+    const rollups = await this.store.queryRollups(keys, '5m', from, to)
+    const devices = keys.map(key => ({ key, from, to, ...computeSla(rollups.get(key) ?? [], from, to) }))
+    return { segment_id: segmentId, from, to, ...combineSla(devices), devices }
+  }
+}
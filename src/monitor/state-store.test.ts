@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { MonitorStateStore } from './state-store.js'
+import { StatusTracker, type StatusPolicy } from './status-tracker.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const HOUR = 60 * 60 * 1000
+const policy: StatusPolicy = { failureThreshold: 2, recoveryThreshold: 1, flapWindowMs: HOUR, flapThreshold: 50 }
+
+let dataDir: string
+
+beforeEach(async () => {
+  vi.clearAllMocks()
+  dataDir = await mkdtemp(path.join(os.tmpdir(), 'vp-state-'))
+})
+
+afterEach(async () => {
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+describe('MonitorStateStore', () => {
+  it('restores hysteresis so a restart continues the failure count', async () => {
+    const tracker = new StatusTracker()
+    tracker.apply('10.0.0.5', 'online', policy)
+    tracker.apply('10.0.0.5', 'offline', policy)
+    tracker.apply('10.0.0.5', 'offline', policy)
+
+    const store = new MonitorStateStore({ dataDir, maxAgeMs: HOUR }, mockLogger)
+    await store.save({
+      local: tracker.snapshot(),
+      checks: [],
+      devices: [{ id: '10.0.0.5', name: 'printer', ip: '10.0.0.5', status: 'online', lastCheck: new Date().toISOString() }],
+      last_runs: { 'local:10.0.0.5': Date.now() },
+      baselines: { local: [], checks: [] },
+    })
+
+    const state = await new MonitorStateStore({ dataDir, maxAgeMs: HOUR }, mockLogger).load()
+    const restored = new StatusTracker()
+    restored.restore(state!.local)
+
+    expect(state!.devices.map(d => d.status)).toEqual(['online'])
+    expect(Object.keys(state!.last_runs)).toEqual(['local:10.0.0.5'])
+    // Third consecutive failure crosses the threshold of 2
+    expect(restored.apply('10.0.0.5', 'offline', policy).status).toBe('offline')
+  })
+
+  it('expires entries older than the configured age', async () => {
+    const old = Date.now() - 2 * HOUR
+    await writeFile(path.join(dataDir, 'monitor-state.json'), JSON.stringify({
+      version: 1,
+      saved_at: old,
+      local: [
+        { key: '10.0.0.5', status: 'online', failures: 0, updated_at: old },
+        { key: '10.0.0.6', status: 'offline', failures: 0, updated_at: Date.now() },
+      ],
+      checks: [],
+      devices: [{ id: '10.0.0.5', name: 'printer', ip: '10.0.0.5', status: 'online' }],
+      last_runs: { 'local:10.0.0.5': old },
+    }))
+
+    const state = await new MonitorStateStore({ dataDir, maxAgeMs: HOUR }, mockLogger).load()
+
+    expect(state!.local.map(e => e.key)).toEqual(['10.0.0.6'])
+    // Devices that were never checked fall back to the snapshot time
+    expect(state!.devices).toEqual([])
+    expect(state!.last_runs).toEqual({})
+  })
+
+  it('starts fresh from a missing or corrupt snapshot', async () => {
+    const store = new MonitorStateStore({ dataDir, maxAgeMs: HOUR }, mockLogger)
+    expect(await store.load()).toBeNull()
+
+    await writeFile(path.join(dataDir, 'monitor-state.json'), '{not json')
+    expect(await store.load()).toBeNull()
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('Monitor state unreadable'))
+  })
+})
@@ -0,0 +1,113 @@
+import path from 'path'
+import type { Logger } from '../utils/logger.js'
+import type { DeviceInfo } from '../ui/server.js'
+import type { TrackerEntry } from './status-tracker.js'
+import type { BaselineEntry } from './baseline.js'
+import { readJsonFile, writeJsonFileAtomic } from '../utils/json-file.js'
+
+const STATE_VERSION = 1
+
+export interface MonitorState {
+  // Hysteresis of discovered devices, keyed by IP
+  local: TrackerEntry[]
+  // Hysteresis of dashboard device checks, keyed by `<device id>:<check id>`
+  checks: TrackerEntry[]
+  devices: DeviceInfo[]
+  // Scheduler job id -> last run time
+  last_runs: Record<string, number>
+  // Latency baselines, keyed like the hysteresis entries
+  baselines: { local: BaselineEntry[]; checks: BaselineEntry[] }
+}
+
+interface StoredMonitorState extends MonitorState {
+  version: number
+  saved_at: number
+}
+
+export interface MonitorStateStoreOptions {
+  dataDir: string
+  // Entries not updated for this long are dropped on load
+  maxAgeMs: number
+}
+
+/**
+ * Snapshot of in-memory monitoring state (status hysteresis, discovered devices, check
+ * schedule) so a restart or upgrade resumes where the agent left off instead of
+ * resetting every device to unknown.
+ */
+export class MonitorStateStore {
+  private logger: Logger
+  private filePath: string
+  private maxAgeMs: number
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(options: MonitorStateStoreOptions, logger: Logger) {
+    this.logger = logger
+    this.filePath = path.join(options.dataDir, 'monitor-state.json')
+    this.maxAgeMs = options.maxAgeMs
+  }
+
+  /**
+   * Load the last snapshot, without entries older than maxAgeMs. Returns null if there is
+   * no usable snapshot.
+   */
+  async load(): Promise<MonitorState | null> {
+    let stored: StoredMonitorState | null
+    try {
+      stored = await readJsonFile<StoredMonitorState>(this.filePath)
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      this.logger.warn(`Monitor state unreadable, starting fresh: ${errorMsg}`)
+      return null
+    }
+
+    if (!stored) return null
+    if (stored.version !== STATE_VERSION) {
+      this.logger.warn(`Ignoring monitor state with unsupported version ${stored.version}`)
+      return null
+    }
+
+    const cutoff = Date.now() - this.maxAgeMs
+    const isFresh = (timestamp: number | undefined) => (timestamp ?? stored.saved_at) >= cutoff
+
+    const state: MonitorState = {
+      local: (stored.local ?? []).filter(e => isFresh(e.updated_at)),
+      checks: (stored.checks ?? []).filter(e => isFresh(e.updated_at)),
+      devices: (stored.devices ?? []).filter(d => isFresh(d.lastCheck ? Date.parse(d.lastCheck) : undefined)),
+      last_runs: Object.fromEntries(Object.entries(stored.last_runs ?? {}).filter(([, at]) => isFresh(at))),
+      baselines: {
+        local: (stored.baselines?.local ?? []).filter(e => isFresh(e.updated_at)),
+        checks: (stored.baselines?.checks ?? []).filter(e => isFresh(e.updated_at)),
+      },
+    }
+
+    const expired = (stored.local?.length ?? 0) - state.local.length
+      + (stored.checks?.length ?? 0) - state.checks.length
+      + (stored.devices?.length ?? 0) - state.devices.length
+    this.logger.info(
+      `Restored monitor state: ${state.devices.length} devices, ${state.local.length + state.checks.length} status entries` +
+      (expired > 0 ? ` (${expired} stale entries expired)` : '')
+    )
+
+    return state
+  }
+
+  /**
+   * Write a snapshot atomically, serialized across callers
+   */
+  save(state: MonitorState): Promise<void> {
+    const snapshot: StoredMonitorState = { version: STATE_VERSION, saved_at: Date.now(), ...state }
+    const data = JSON.stringify(snapshot)
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await writeJsonFileAtomic(this.filePath, data)
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.error(`Failed to persist monitor state: ${errorMsg}`)
+      }
+    })
+
+    return this.writeChain
+  }
+}
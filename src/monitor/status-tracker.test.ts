@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { StatusTracker, type StatusPolicy } from './status-tracker.js'
+
+const policy: StatusPolicy = { failureThreshold: 2, recoveryThreshold: 1, flapWindowMs: 10 * 60_000, flapThreshold: 50 }
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('StatusTracker', () => {
+  it('keeps a key online until the failure threshold is exceeded', () => {
+    const tracker = new StatusTracker()
+    tracker.apply('web-1:ping', 'online', policy)
+
+    expect(tracker.apply('web-1:ping', 'offline', policy).status).toBe('online')
+    expect(tracker.apply('web-1:ping', 'offline', policy).status).toBe('online')
+    expect(tracker.apply('web-1:ping', 'offline', policy).status).toBe('offline')
+  })
+
+  it('keeps a key offline until the recovery threshold is met', () => {
+    const tracker = new StatusTracker()
+    tracker.apply('web-1:ping', 'offline', policy)
+
+    expect(tracker.apply('web-1:ping', 'online', policy).status).toBe('offline')
+    expect(tracker.apply('web-1:ping', 'online', policy).status).toBe('online')
+  })
+
+  it('reports a bouncing key as flapping until it settles', () => {
+    vi.useFakeTimers()
+    const tracker = new StatusTracker()
+    const bouncy = { ...policy, failureThreshold: 0, recoveryThreshold: 0 }
+
+    let verdict = tracker.apply('nas', 'online', bouncy)
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(30_000)
+      verdict = tracker.apply('nas', i % 2 === 0 ? 'offline' : 'online', bouncy)
+    }
+    expect(verdict).toEqual({ status: 'flapping', flap_score: 100 })
+    expect(tracker.get('nas')).toBe('flapping')
+
+    // Stays flapping while the score is above half the threshold
+    vi.advanceTimersByTime(30_000)
+    expect(tracker.apply('nas', 'offline', bouncy).status).toBe('flapping')
+
+    // Once the bouncing ages out of the window the real status comes back
+    vi.advanceTimersByTime(policy.flapWindowMs)
+    verdict = tracker.apply('nas', 'offline', bouncy)
+    expect(verdict).toEqual({ status: 'offline', flap_score: 0 })
+  })
+
+  it('does not count results taken during maintenance', () => {
+    const tracker = new StatusTracker()
+    tracker.apply('sw-1', 'online', policy)
+
+    for (let i = 0; i < 5; i++) {
+      expect(tracker.apply('sw-1', 'offline', policy, true).status).toBe('offline')
+    }
+    expect(tracker.get('sw-1')).toBe('online')
+    expect(tracker.apply('sw-1', 'offline', policy).status).toBe('online')
+  })
+
+  it('tracks each key independently and prunes inactive ones', () => {
+    const tracker = new StatusTracker()
+    tracker.apply('web-1:ping', 'online', policy)
+    tracker.apply('web-1:ssh', 'offline', policy)
+
+    expect(tracker.get('web-1:ping')).toBe('online')
+    expect(tracker.get('web-1:ssh')).toBe('offline')
+    expect(tracker.prune(new Set(['web-1:ping']))).toBe(1)
+    expect(tracker.get('web-1:ssh')).toBe('unknown')
+  })
+})
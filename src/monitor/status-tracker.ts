@@ -0,0 +1,154 @@
+import type { CheckStatus, ObservedStatus } from './checks.js'
+
+export interface StatusPolicy {
+  // Consecutive failures tolerated before an online key turns offline
+  failureThreshold: number
+  // Consecutive successes required, beyond the first, before an offline key recovers
+  recoveryThreshold: number
+  // Sliding window over which state changes are counted for flap detection
+  flapWindowMs: number
+  // Flap score (% of checks in the window that changed state) at which a key starts flapping.
+  // It stops flapping once the score falls below half of this.
+  flapThreshold: number
+}
+
+/**
+ * Persistable hysteresis state of one key
+ */
+export interface TrackerEntry {
+  key: string
+  // Debounced status, without flap suppression
+  status: ObservedStatus
+  failures: number
+  successes: number
+  flapping: boolean
+  // Raw observations within the flap window: [timestamp, status]
+  samples: [number, ObservedStatus][]
+  updated_at: number
+}
+
+export interface StatusVerdict {
+  status: CheckStatus
+  flap_score: number
+}
+
+// Fewer observations than this in the window are not enough to call a key flapping
+const MIN_FLAP_SAMPLES = 5
+
+/**
+ * Status hysteresis per key (a local device IP, or a device check).
+ *
+ * A key that was online only turns offline after `failureThreshold` consecutive failures, and
+ * an offline key only recovers after `recoveryThreshold` further successes. Independently, the
+ * raw observations are watched for state changes: a key whose flap score crosses
+ * `flapThreshold` is reported as `flapping` until it settles, instead of bouncing the dashboard.
+ */
+export class StatusTracker {
+  private entries = new Map<string, TrackerEntry>()
+
+  /**
+   * Record an observed status and return the status to report. Results taken during
+   * maintenance are reported as observed but don't move thresholds or the flap score.
+   */
+  apply(key: string, observed: ObservedStatus, policy: StatusPolicy, inMaintenance = false): StatusVerdict {
+    if (inMaintenance) {
+      const entry = this.entries.get(key)
+      return { status: observed, flap_score: entry ? StatusTracker.flapScore(entry.samples) : 0 }
+    }
+
+    const now = Date.now()
+    const entry = this.entries.get(key) ?? {
+      key, status: 'unknown', failures: 0, successes: 0, flapping: false, samples: [], updated_at: 0,
+    }
+
+    let status = observed
+    if (observed === 'offline' && entry.status === 'online') {
+      entry.successes = 0
+      if (entry.failures < policy.failureThreshold) {
+        entry.failures++
+        status = 'online' // Keep as online until threshold reached
+      }
+    } else if (observed !== 'offline' && observed !== 'unknown' && entry.status === 'offline') {
+      entry.failures = 0
+      if (entry.successes < policy.recoveryThreshold) {
+        entry.successes++
+        status = 'offline' // Keep as offline until recovery threshold reached
+      }
+    } else if (observed === 'online') {
+      entry.failures = 0
+    } else if (observed === 'offline') {
+      entry.successes = 0
+    }
+
+    if (status !== entry.status) {
+      entry.failures = 0
+      entry.successes = 0
+    }
+    entry.status = status
+
+    entry.samples.push([now, observed])
+    entry.samples = entry.samples.filter(([at]) => at > now - policy.flapWindowMs)
+    const flapScore = StatusTracker.flapScore(entry.samples)
+    if (!entry.flapping && flapScore >= policy.flapThreshold && entry.samples.length >= MIN_FLAP_SAMPLES) {
+      entry.flapping = true
+    } else if (entry.flapping && flapScore < policy.flapThreshold / 2) {
+      entry.flapping = false
+    }
+
+    entry.updated_at = now
+    this.entries.set(key, entry)
+    return { status: entry.flapping ? 'flapping' : status, flap_score: flapScore }
+  }
+
+  get(key: string): CheckStatus {
+    const entry = this.entries.get(key)
+    if (!entry) return 'unknown'
+    return entry.flapping ? 'flapping' : entry.status
+  }
+
+  /**
+   * Drop keys that are no longer checked. Returns how many were removed.
+   */
+  prune(activeKeys: Set<string>): number {
+    let removed = 0
+    for (const key of this.entries.keys()) {
+      if (!activeKeys.has(key)) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  snapshot(): TrackerEntry[] {
+    return Array.from(this.entries.values(), entry => ({ ...entry, samples: [...entry.samples] }))
+  }
+
+  /**
+   * Reload persisted entries. Keys already tracked since startup win over the snapshot.
+   */
+  restore(entries: TrackerEntry[]): void {
+    for (const entry of entries) {
+      if (!this.entries.has(entry.key)) {
+        this.entries.set(entry.key, {
+          ...entry,
+          successes: entry.successes ?? 0,
+          flapping: entry.flapping ?? false,
+          samples: entry.samples ?? [],
+        })
+      }
+    }
+  }
+
+  /**
+   * Percentage of consecutive observations in the window that changed state
+   */
+  private static flapScore(samples: [number, ObservedStatus][]): number {
+    if (samples.length < 2) return 0
+    let changes = 0
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i][1] !== samples[i - 1][1]) changes++
+    }
+    return Math.round((changes / (samples.length - 1)) * 100)
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, readdir, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { TimeSeriesStore, type RawPoint, type RollupPoint } from './timeseries.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// Start of a 5-minute bucket, a few hours back so everything is within raw retention
+const base = Math.floor((Date.now() - 3 * HOUR) / DAY) * DAY + 3 * HOUR
+
+let dataDir: string
+
+beforeEach(async () => {
+  vi.clearAllMocks()
+  dataDir = await mkdtemp(path.join(os.tmpdir(), 'vp-timeseries-'))
+})
+
+afterEach(async () => {
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+describe('TimeSeriesStore', () => {
+  it('returns raw results of one series in time order', async () => {
+    const store = new TimeSeriesStore({ dataDir }, mockLogger)
+    store.record('10.0.0.5', 'online', 12, false, base + 2 * MINUTE)
+    store.record('10.0.0.5', 'offline', null, false, base + MINUTE)
+    store.record('10.0.0.6', 'online', 3, false, base + MINUTE)
+    store.record('10.0.0.5', 'online', 8, true, base + 3 * MINUTE)
+
+    const result = await store.query({ key: '10.0.0.5', from: base, to: base + 5 * MINUTE, resolution: 'raw' })
+
+    expect(result.resolution).toBe('raw')
+    expect(result.points as RawPoint[]).toEqual([
+      { t: base + MINUTE, status: 'offline', response_time_ms: null },
+      { t: base + 2 * MINUTE, status: 'online', response_time_ms: 12 },
+      { t: base + 3 * MINUTE, status: 'online', response_time_ms: 8, in_maintenance: true },
+    ])
+  })
+
+  it('rolls results up into availability and response time buckets', async () => {
+    const store = new TimeSeriesStore({ dataDir }, mockLogger)
+    store.record('dev-1:http', 'online', 10, false, base)
+    store.record('dev-1:http', 'degraded', 30, false, base + MINUTE)
+    store.record('dev-1:http', 'offline', null, false, base + 2 * MINUTE)
+    store.record('dev-1:http', 'offline', null, true, base + 3 * MINUTE)
+    // Next bucket closes the first one
+    store.record('dev-1:http', 'online', 20, false, base + 5 * MINUTE)
+
+    const result = await store.query({ key: 'dev-1:http', from: base, to: base + 10 * MINUTE, resolution: '5m' })
+    const points = result.points as RollupPoint[]
+
+    expect(points).toHaveLength(2)
+    expect(points[0]).toEqual({
+      t: base, count: 4, up: 2, down: 1, maintenance: 1,
+      availability: 2 / 3, min_ms: 10, avg_ms: 20, max_ms: 30,
+    })
+    // The open bucket is included too
+    expect(points[1]).toMatchObject({ t: base + 5 * MINUTE, count: 1, up: 1, availability: 1 })
+  })
+
+  it('merges a bucket split across a restart', async () => {
+    const first = new TimeSeriesStore({ dataDir }, mockLogger)
+    first.record('10.0.0.5', 'online', 10, false, base)
+    await first.stop()
+
+    const second = new TimeSeriesStore({ dataDir }, mockLogger)
+    second.record('10.0.0.5', 'offline', null, false, base + MINUTE)
+    await second.stop()
+
+    const result = await second.query({ key: '10.0.0.5', from: base, to: base + HOUR, resolution: '1h' })
+
+    expect(result.points as RollupPoint[]).toEqual([
+      { t: base, count: 2, up: 1, down: 1, maintenance: 0, availability: 0.5, min_ms: 10, avg_ms: 10, max_ms: 10 },
+    ])
+  })
+
+  it('picks a resolution from the queried range', async () => {
+    const store = new TimeSeriesStore({ dataDir }, mockLogger)
+    const now = Date.now()
+
+    expect((await store.query({ key: 'x', from: now - HOUR, to: now })).resolution).toBe('raw')
+    expect((await store.query({ key: 'x', from: now - DAY, to: now })).resolution).toBe('5m')
+    expect((await store.query({ key: 'x', from: now - 30 * DAY, to: now })).resolution).toBe('1h')
+  })
+
+  it('reads only the files on disk for a very wide range', async () => {
+    const store = new TimeSeriesStore({ dataDir }, mockLogger)
+    store.record('10.0.0.5', 'online', 12, false, base + MINUTE)
+
+    // Decades of hourly slots; probing each one would not finish
+    const result = await store.query({ key: '10.0.0.5', from: 0, to: base + 100 * 365 * DAY, resolution: 'raw' })
+
+    expect(result.points).toEqual([{ t: base + MINUTE, status: 'online', response_time_ms: 12 }])
+  })
+
+  it('deletes files past retention', async () => {
+    const store = new TimeSeriesStore({ dataDir, rawRetentionMs: DAY, rollupRetentionMs: 7 * DAY }, mockLogger)
+    const old = Date.now() - 10 * DAY
+    store.record('10.0.0.5', 'online', 10, false, old)
+    store.record('10.0.0.5', 'online', 10, false, Date.now())
+    await store.stop()
+
+    await store.prune()
+
+    for (const resolution of ['raw', '5m', '1h']) {
+      const files = await readdir(path.join(dataDir, 'timeseries', resolution))
+      expect(files).toHaveLength(1)
+    }
+  })
+
+  it('logs a failed background prune instead of rejecting', async () => {
+    // A directory where an expired file is expected cannot be removed without recursion
+    await mkdir(path.join(dataDir, 'timeseries', 'raw', '2020-01-01T00.jsonl'), { recursive: true })
+    const store = new TimeSeriesStore({ dataDir }, mockLogger)
+
+    store.start()
+    await vi.waitFor(() => expect(mockLogger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to prune time-series data')))
+    await store.stop()
+  })
+})
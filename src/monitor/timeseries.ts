@@ -0,0 +1,393 @@
+import { promises as fs, createReadStream } from 'fs'
+import path from 'path'
+import readline from 'readline'
+import type { Logger } from '../utils/logger.js'
+import type { CheckStatus } from './checks.js'
+
+export type Resolution = 'raw' | '5m' | '1h'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+const BUCKET_MS: Record<Exclude<Resolution, 'raw'>, number> = { '5m': 5 * MINUTE_MS, '1h': HOUR_MS }
+
+// Raw samples are written to hourly files, rollups to daily files (UTC), so retention is a file delete
+const FILE_PERIOD_MS: Record<Resolution, number> = { raw: HOUR_MS, '5m': DAY_MS, '1h': DAY_MS }
+
+export interface RawPoint {
+  t: number
+  status: CheckStatus
+  response_time_ms: number | null
+  in_maintenance?: boolean
+}
+
+export interface RollupPoint {
+  t: number
+  count: number
+  up: number
+  down: number
+  maintenance: number
+  // up / (up + down), null when the bucket only holds maintenance or unknown results
+  availability: number | null
+  min_ms: number | null
+  avg_ms: number | null
+  max_ms: number | null
+}
+
+export interface HistoryQuery {
+  key: string
+  from: number
+  to: number
+  // 'auto' picks the finest resolution that is retained and keeps the point count reasonable
+  resolution?: Resolution | 'auto'
+}
+
+export interface HistoryResult {
+  key: string
+  resolution: Resolution
+  from: number
+  to: number
+  points: RawPoint[] | RollupPoint[]
+}
+
+export interface TimeSeriesStoreOptions {
+  dataDir: string
+  rawRetentionMs?: number
+  rollupRetentionMs?: number
+  flushIntervalMs?: number
+}
+
+interface Bucket {
+  t: number
+  key: string
+  count: number
+  up: number
+  down: number
+  maintenance: number
+  rttCount: number
+  rttSum: number
+  min: number | null
+  max: number | null
+}
+
+// On-disk line formats (JSON arrays keep the files compact)
+type RawLine = [number, string, CheckStatus, number | null, 0 | 1]
+type BucketLine = [number, string, number, number, number, number, number, number, number | null, number | null]
+
+function periodName(resolution: Resolution, t: number): string {
+  const iso = new Date(t).toISOString()
+  return resolution === 'raw' ? iso.slice(0, 13) : iso.slice(0, 10)
+}
+
+function periodStart(resolution: Resolution, name: string): number {
+  return Date.parse(resolution === 'raw' ? `${name}:00:00Z` : `${name}T00:00:00Z`)
+}
+
+function emptyBucket(t: number, key: string): Bucket {
+  return { t, key, count: 0, up: 0, down: 0, maintenance: 0, rttCount: 0, rttSum: 0, min: null, max: null }
+}
+
+function mergeInto(target: Bucket, source: Bucket): void {
+  target.count += source.count
+  target.up += source.up
+  target.down += source.down
+  target.maintenance += source.maintenance
+  target.rttCount += source.rttCount
+  target.rttSum += source.rttSum
+  if (source.min !== null) target.min = target.min === null ? source.min : Math.min(target.min, source.min)
+  if (source.max !== null) target.max = target.max === null ? source.max : Math.max(target.max, source.max)
+}
+
+function toRollupPoint(bucket: Bucket): RollupPoint {
+  const counted = bucket.up + bucket.down
+  return {
+    t: bucket.t,
+    count: bucket.count,
+    up: bucket.up,
+    down: bucket.down,
+    maintenance: bucket.maintenance,
+    availability: counted > 0 ? bucket.up / counted : null,
+    min_ms: bucket.min,
+    avg_ms: bucket.rttCount > 0 ? Math.round((bucket.rttSum / bucket.rttCount) * 10) / 10 : null,
+    max_ms: bucket.max,
+  }
+}
+
+/**
+ * Embedded time-series store for check results, so history is available locally even while
+ * the dashboard is unreachable.
+ *
+ * Raw results are kept for rawRetentionMs (default 1 day); 5-minute and hourly rollups
+ * (availability and min/avg/max response time) for rollupRetentionMs (default 30 days).
+ * Data is appended to JSON-lines files under `<dataDir>/timeseries`, partitioned by time.
+ */
+export class TimeSeriesStore {
+  private logger: Logger
+  private baseDir: string
+  private rawRetentionMs: number
+  private rollupRetentionMs: number
+  private flushIntervalMs: number
+  // Open rollup buckets: resolution -> series key -> bucket
+  private open = new Map<Exclude<Resolution, 'raw'>, Map<string, Bucket>>([['5m', new Map()], ['1h', new Map()]])
+  // Lines waiting to be appended, per file
+  private pending = new Map<string, string[]>()
+  private writeChain: Promise<void> = Promise.resolve()
+  private flushTimer: NodeJS.Timeout | null = null
+  private pruneTimer: NodeJS.Timeout | null = null
+
+  constructor(options: TimeSeriesStoreOptions, logger: Logger) {
+    this.logger = logger
+    this.baseDir = path.join(options.dataDir, 'timeseries')
+    this.rawRetentionMs = options.rawRetentionMs ?? DAY_MS
+    this.rollupRetentionMs = options.rollupRetentionMs ?? 30 * DAY_MS
+    this.flushIntervalMs = options.flushIntervalMs ?? 10000
+  }
+
+  start(): void {
+    if (this.flushTimer) return
+    this.flushTimer = setInterval(() => {
+      this.flush()
+    }, this.flushIntervalMs)
+    this.pruneTimer = setInterval(() => {
+      this.pruneInBackground()
+    }, HOUR_MS)
+    this.pruneInBackground()
+  }
+
+  /**
+   * Stop the timers and write everything, including partially filled rollup buckets
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) clearInterval(this.flushTimer)
+    if (this.pruneTimer) clearInterval(this.pruneTimer)
+    this.flushTimer = null
+    this.pruneTimer = null
+    await this.flush(true)
+  }
+
+  /**
+   * Record one check result for a series (a device IP or `<device id>:<check id>`)
+   */
+  record(key: string, status: CheckStatus, responseTimeMs: number | null, inMaintenance = false, t = Date.now()): void {
+    const line: RawLine = [t, key, status, responseTimeMs, inMaintenance ? 1 : 0]
+    this.append('raw', t, JSON.stringify(line))
+
+    for (const [resolution, buckets] of this.open) {
+      const bucketStart = Math.floor(t / BUCKET_MS[resolution]) * BUCKET_MS[resolution]
+      let bucket = buckets.get(key)
+      if (bucket && bucket.t !== bucketStart) {
+        this.closeBucket(resolution, bucket)
+        bucket = undefined
+      }
+      if (!bucket) {
+        bucket = emptyBucket(bucketStart, key)
+        buckets.set(key, bucket)
+      }
+
+      bucket.count++
+      if (inMaintenance) {
+        bucket.maintenance++
+      } else if (status === 'online' || status === 'degraded') {
+        bucket.up++
+      } else if (status === 'offline' || status === 'unreachable' || status === 'flapping') {
+        // A flapping device is failing part of the time; counting it as up would overstate uptime
+        bucket.down++
+      }
+      if (responseTimeMs !== null) {
+        bucket.rttCount++
+        bucket.rttSum += responseTimeMs
+        bucket.min = bucket.min === null ? responseTimeMs : Math.min(bucket.min, responseTimeMs)
+        bucket.max = bucket.max === null ? responseTimeMs : Math.max(bucket.max, responseTimeMs)
+      }
+    }
+  }
+
+  /**
+   * Write pending lines. Rollup buckets whose period has ended are closed first;
+   * with `all`, open buckets are written too (a later partial bucket is merged on read).
+   */
+  flush(all = false): Promise<void> {
+    const now = Date.now()
+    for (const [resolution, buckets] of this.open) {
+      for (const bucket of buckets.values()) {
+        if (all || bucket.t + BUCKET_MS[resolution] <= now) {
+          this.closeBucket(resolution, bucket)
+        }
+      }
+    }
+
+    const batch = this.pending
+    this.pending = new Map()
+    if (batch.size === 0) return this.writeChain
+
+    this.writeChain = this.writeChain.then(async () => {
+      for (const [filePath, lines] of batch) {
+        try {
+          await fs.mkdir(path.dirname(filePath), { recursive: true })
+          await fs.appendFile(filePath, lines.join('\n') + '\n', 'utf-8')
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+          this.logger.error(`Failed to write time-series data: ${errorMsg}`)
+        }
+      }
+    })
+    return this.writeChain
+  }
+
+  /**
+   * History of one series
+   */
+  async query(query: HistoryQuery): Promise<HistoryResult> {
+    const resolution = this.pickResolution(query)
+    await this.flush()
+
+    let points: RawPoint[] | RollupPoint[]
+
+    if (resolution === 'raw') {
+      const raw: RawPoint[] = []
+      await this.scan(resolution, query.from, query.to, line => {
+        const [t, key, status, rtt, maintenance] = line as RawLine
+        if (key !== query.key || t < query.from || t > query.to) return
+        raw.push({ t, status, response_time_ms: rtt, ...(maintenance ? { in_maintenance: true } : {}) })
+      })
+      points = raw.sort((a, b) => a.t - b.t)
+    } else {
+      const rollups = await this.rollups([query.key], resolution, query.from, query.to)
+      points = rollups.get(query.key) ?? []
+    }
+
+    return { key: query.key, resolution, from: query.from, to: query.to, points }
+  }
+
+  /**
+   * Rollup points of several series in one pass over the files, keyed by series
+   */
+  async queryRollups(keys: string[], resolution: Exclude<Resolution, 'raw'>, from: number, to: number): Promise<Map<string, RollupPoint[]>> {
+    await this.flush()
+    return this.rollups(keys, resolution, from, to)
+  }
+
+  /**
+   * Delete files that are entirely past retention
+   */
+  async prune(now = Date.now()): Promise<void> {
+    for (const resolution of ['raw', '5m', '1h'] as Resolution[]) {
+      const retention = resolution === 'raw' ? this.rawRetentionMs : this.rollupRetentionMs
+      const dir = path.join(this.baseDir, resolution)
+
+      let files: string[]
+      try {
+        files = await fs.readdir(dir)
+      } catch {
+        continue // nothing written yet
+      }
+
+      for (const file of files) {
+        const start = periodStart(resolution, path.basename(file, '.jsonl'))
+        if (!Number.isNaN(start) && start + FILE_PERIOD_MS[resolution] < now - retention) {
+          await fs.rm(path.join(dir, file), { force: true })
+        }
+      }
+    }
+  }
+
+  private pruneInBackground(): void {
+    this.prune().catch(error => {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      this.logger.error(`Failed to prune time-series data: ${errorMsg}`)
+    })
+  }
+
+  private pickResolution(query: HistoryQuery): Resolution {
+    if (query.resolution && query.resolution !== 'auto') {
+      return query.resolution
+    }
+    const span = query.to - query.from
+    if (query.from >= Date.now() - this.rawRetentionMs && span <= 6 * HOUR_MS) return 'raw'
+    if (span <= 7 * DAY_MS) return '5m'
+    return '1h'
+  }
+
+  private async rollups(keys: string[], resolution: Exclude<Resolution, 'raw'>, from: number, to: number): Promise<Map<string, RollupPoint[]>> {
+    // Series key -> bucket start -> bucket; a bucket may be split across restarts
+    const series = new Map<string, Map<number, Bucket>>(keys.map(key => [key, new Map()]))
+    const add = (bucket: Bucket) => {
+      const buckets = series.get(bucket.key)
+      if (!buckets || bucket.t < from - BUCKET_MS[resolution] || bucket.t > to) return
+      const existing = buckets.get(bucket.t)
+      if (existing) {
+        mergeInto(existing, bucket)
+      } else {
+        buckets.set(bucket.t, { ...bucket })
+      }
+    }
+
+    await this.scan(resolution, from, to, line => {
+      const [t, key, count, up, down, maintenance, rttCount, rttSum, min, max] = line as BucketLine
+      add({ t, key, count, up, down, maintenance, rttCount, rttSum, min, max })
+    })
+    for (const key of keys) {
+      const open = this.open.get(resolution)!.get(key)
+      if (open) add(open)
+    }
+
+    return new Map(Array.from(series, ([key, buckets]) => [
+      key,
+      Array.from(buckets.values()).sort((a, b) => a.t - b.t).map(toRollupPoint),
+    ]))
+  }
+
+  private closeBucket(resolution: Exclude<Resolution, 'raw'>, bucket: Bucket): void {
+    this.open.get(resolution)!.delete(bucket.key)
+    const line: BucketLine = [
+      bucket.t, bucket.key, bucket.count, bucket.up, bucket.down, bucket.maintenance,
+      bucket.rttCount, bucket.rttSum, bucket.min, bucket.max,
+    ]
+    this.append(resolution, bucket.t, JSON.stringify(line))
+  }
+
+  private append(resolution: Resolution, t: number, line: string): void {
+    const filePath = path.join(this.baseDir, resolution, `${periodName(resolution, t)}.jsonl`)
+    const lines = this.pending.get(filePath)
+    if (lines) {
+      lines.push(line)
+    } else {
+      this.pending.set(filePath, [line])
+    }
+  }
+
+  /**
+   * Stream the parsed lines of every file of a resolution overlapping [from, to].
+   * Only files on disk are visited, so a wide range costs no more than the retained data.
+   */
+  private async scan(resolution: Resolution, from: number, to: number, visit: (line: unknown[]) => void): Promise<void> {
+    const period = FILE_PERIOD_MS[resolution]
+    const dir = path.join(this.baseDir, resolution)
+
+    let files: string[]
+    try {
+      files = await fs.readdir(dir)
+    } catch {
+      return // nothing written yet
+    }
+
+    const overlapping = files
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => ({ filePath: path.join(dir, file), start: periodStart(resolution, path.basename(file, '.jsonl')) }))
+      .filter(({ start }) => !Number.isNaN(start) && start + period > from && start <= to)
+      .sort((a, b) => a.start - b.start)
+
+    for (const { filePath } of overlapping) {
+      const rl = readline.createInterface({ input: createReadStream(filePath, 'utf-8'), crlfDelay: Infinity })
+      for await (const text of rl) {
+        try {
+          const parsed = JSON.parse(text)
+          if (Array.isArray(parsed)) visit(parsed)
+        } catch {
+          // Partial line from a crash mid-write
+        }
+      }
+    }
+  }
+}
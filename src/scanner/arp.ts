@@ -3,6 +3,7 @@ import { promisify } from 'util'
 import { createRequire } from 'module'
 import { isInCidr, normalizeMac } from '../utils/ip-utils.js'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
 
 // Load OUI database (IEEE MAC address vendor database)
 const require = createRequire(import.meta.url)
@@ -122,6 +123,7 @@ export async function arpScan(cidr: string, logger: Logger): Promise<DiscoveredD
  */
 export async function populateArpCache(cidr: string, logger: Logger): Promise<void> {
   const platform = process.platform
+  await probeGate.acquire()
 
   try {
     if (platform === 'win32') {
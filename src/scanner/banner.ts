@@ -1,5 +1,6 @@
 import * as net from 'net'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
 
 export interface BannerResult {
   port: number
@@ -17,6 +18,8 @@ export async function grabBanner(
   logger: Logger,
   timeout = 3000
 ): Promise<BannerResult | null> {
+  await probeGate.acquire()
+
   return new Promise((resolve) => {
     const socket = new net.Socket()
     let data = ''
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { checkHttp, statusMatches, jsonPathValue, assertHttpResponse } from './http.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+describe('statusMatches', () => {
+  it('matches codes, classes and ranges', () => {
+    expect(statusMatches(204, 204)).toBe(true)
+    expect(statusMatches(204, '2xx')).toBe(true)
+    expect(statusMatches(302, '2xx')).toBe(false)
+    expect(statusMatches(401, '400-403')).toBe(true)
+    expect(statusMatches(404, '400-403')).toBe(false)
+    expect(statusMatches(200, '200')).toBe(true)
+  })
+})
+
+describe('jsonPathValue', () => {
+  const data = { status: 'up', checks: [{ name: 'db', ok: true }], 'build info': { version: 3 } }
+
+  it('follows properties, indexes and quoted keys', () => {
+    expect(jsonPathValue(data, '$.status')).toEqual({ found: true, value: 'up' })
+    expect(jsonPathValue(data, '$.checks[0].ok')).toEqual({ found: true, value: true })
+    expect(jsonPathValue(data, "$['build info'].version")).toEqual({ found: true, value: 3 })
+    expect(jsonPathValue(data, '$')).toEqual({ found: true, value: data })
+  })
+
+  it('reports missing or malformed paths as not found', () => {
+    expect(jsonPathValue(data, '$.checks[1].ok')).toEqual({ found: false })
+    expect(jsonPathValue(data, '$.status.code')).toEqual({ found: false })
+    expect(jsonPathValue(data, '$..status')).toEqual({ found: false })
+  })
+})
+
+describe('assertHttpResponse', () => {
+  it('defaults to accepting 2xx and 3xx', () => {
+    expect(assertHttpResponse(301, '', {})).toEqual([])
+    expect(assertHttpResponse(503, '', {})).toEqual(['Status 503'])
+  })
+
+  it('reports every failed assertion', () => {
+    const failures = assertHttpResponse(500, '{"status":"down"}', {
+      expectedStatus: [200, '3xx'],
+      bodyContains: 'healthy',
+      bodyRegex: '^\\{"status":"up"',
+      jsonPath: '$.status',
+      jsonExpected: 'up',
+    })
+
+    expect(failures).toEqual([
+      'Status 500 not in expected 200, 3xx',
+      'Body does not contain "healthy"',
+      'Body does not match /^\\{"status":"up"/',
+      'JSON path $.status is "down", expected "up"',
+    ])
+  })
+
+  it('fails a JSON path assertion on a non-JSON body', () => {
+    expect(assertHttpResponse(200, '<html>', { jsonPath: '$.status' })).toEqual(['Body is not valid JSON'])
+  })
+})
+
+describe('checkHttp', () => {
+  let server: Server
+  let baseUrl: string
+  const requests: { method?: string; url?: string; headers: Record<string, unknown>; body: string }[] = []
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body })
+        if (req.url === '/health') {
+          res.writeHead(200, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ status: 'up', db: { ok: true } }))
+        } else if (req.url === '/old') {
+          res.writeHead(301, { Location: '/health' })
+          res.end()
+        } else if (req.url === '/loop') {
+          res.writeHead(302, { Location: '/loop' })
+          res.end()
+        } else if (req.url === '/large') {
+          res.writeHead(200)
+          res.end('x'.repeat(10000))
+        } else {
+          res.writeHead(404)
+          res.end('not found')
+        }
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('sends the configured method, headers, body and auth', async () => {
+    const result = await checkHttp(`${baseUrl}/health`, mockLogger, 5000, {
+      method: 'POST',
+      headers: { 'X-Probe': 'yes' },
+      body: 'ping',
+      auth: { type: 'bearer', token: 'secret-token' },
+      jsonPath: '$.db.ok',
+      jsonExpected: true,
+    })
+
+    expect(result).toMatchObject({ status: 'online', status_code: 200 })
+    expect(requests.at(-1)).toMatchObject({
+      method: 'POST',
+      body: 'ping',
+      headers: { 'x-probe': 'yes', authorization: 'Bearer secret-token' },
+    })
+  })
+
+  it('breaks the response time down into connection phases', async () => {
+    const result = await checkHttp(`${baseUrl}/health`, mockLogger, 5000)
+    const timings = result.timings!
+
+    // An IP literal needs no DNS lookup and plain HTTP no TLS handshake
+    expect(timings.dns_ms).toBeNull()
+    expect(timings.tls_ms).toBeNull()
+    expect(timings.connect_ms).toBeGreaterThanOrEqual(0)
+    expect(timings.ttfb_ms).toBeGreaterThanOrEqual(0)
+    expect(timings.transfer_ms).toBeGreaterThanOrEqual(0)
+  })
+
+  it('times the connection of the final redirect hop', async () => {
+    const result = await checkHttp(`http://localhost:${new URL(baseUrl).port}/old`, mockLogger, 5000)
+
+    expect(result.status).toBe('online')
+    expect(result.timings?.ttfb_ms).toBeGreaterThanOrEqual(0)
+  })
+
+  it('is degraded with a precise error when an assertion fails', async () => {
+    const result = await checkHttp(`${baseUrl}/health`, mockLogger, 5000, { bodyContains: '"status":"ok"' })
+
+    expect(result.status).toBe('degraded')
+    expect(result.error).toBe('Body does not contain "\\"status\\":\\"ok\\""')
+  })
+
+  it('applies the redirect policy', async () => {
+    const followed = await checkHttp(`${baseUrl}/old`, mockLogger, 5000, { expectedStatus: [200] })
+    const notFollowed = await checkHttp(`${baseUrl}/old`, mockLogger, 5000, { maxRedirects: 0, expectedStatus: [200] })
+    const looping = await checkHttp(`${baseUrl}/loop`, mockLogger, 5000, { maxRedirects: 2 })
+
+    expect(followed.status).toBe('online')
+    expect(notFollowed).toMatchObject({ status: 'degraded', status_code: 301 })
+    expect(looping).toMatchObject({ status: 'degraded', error: 'More than 2 redirects' })
+  })
+
+  it('is degraded when the response exceeds the size limit', async () => {
+    const result = await checkHttp(`${baseUrl}/large`, mockLogger, 5000, { maxResponseBytes: 1000 })
+
+    expect(result).toMatchObject({ status: 'degraded', error: 'Response larger than 1000 bytes' })
+  })
+
+  it('is offline when nothing answers', async () => {
+    const result = await checkHttp('http://127.0.0.1:1/', mockLogger, 5000)
+
+    expect(result.status).toBe('offline')
+  })
+})
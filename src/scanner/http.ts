@@ -1,50 +1,274 @@
+import http from 'http'
+import https from 'https'
+import type { Duplex } from 'stream'
+import { performance } from 'perf_hooks'
 import axios from 'axios'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS'
+
+export type HttpAuth =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string }
+
+/**
+ * Request and assertions of a configurable HTTP check. Everything is optional; the
+ * default is a GET that is online for any 2xx/3xx status.
+ */
+export interface HttpCheckOptions {
+  method?: HttpMethod
+  headers?: Record<string, string>
+  body?: string
+  auth?: HttpAuth
+  // Accepted statuses: codes (200), classes ('2xx') or ranges ('200-299')
+  expectedStatus?: (number | string)[]
+  // Redirects to follow; with 0 a redirect response is the final response
+  maxRedirects?: number
+  // Set false to accept self-signed or otherwise invalid certificates
+  tlsVerify?: boolean
+  bodyContains?: string
+  bodyRegex?: string
+  // JSON path like `$.status` or `$.checks[0].ok`, with an optional expected value
+  jsonPath?: string
+  jsonExpected?: unknown
+  maxResponseBytes?: number
+}
+
+/**
+ * Where the time of a request went, for the final connection after any redirects. A phase
+ * that didn't happen (DNS for an IP literal, TLS for plain HTTP, anything after a failure)
+ * is null.
+ */
+export interface HttpTimings {
+  dns_ms: number | null
+  connect_ms: number | null
+  tls_ms: number | null
+  // Request sent until the first response byte
+  ttfb_ms: number | null
+  // First response byte until the body was read
+  transfer_ms: number | null
+}
 
 export interface HttpResult {
   url: string
   status: 'online' | 'offline' | 'degraded'
   response_time_ms: number | null
   status_code?: number
+  timings?: HttpTimings
   error?: string
 }
 
+const DEFAULT_MAX_REDIRECTS = 5
+
+// performance.now() marks of one connection
+interface PhaseMarks {
+  start: number
+  lookup?: number
+  connect?: number
+  secure?: number
+  firstByte?: number
+}
+
+type SocketListener = (socket: Duplex) => void
+
 /**
- * Check HTTP/HTTPS endpoint availability
+ * Agent that hands every new socket to a listener, so connection phases can be timed
+ */
+class TimingHttpAgent extends http.Agent {
+  private onSocket: SocketListener
+
+  constructor(onSocket: SocketListener) {
+    super()
+    this.onSocket = onSocket
+  }
+
+  createConnection(options: http.ClientRequestArgs, callback?: (err: Error | null, stream: Duplex) => void) {
+    const socket = super.createConnection(options, callback)
+    if (socket) this.onSocket(socket)
+    return socket
+  }
+}
+
+class TimingHttpsAgent extends https.Agent {
+  private onSocket: SocketListener
+
+  constructor(onSocket: SocketListener, options: https.AgentOptions) {
+    super(options)
+    this.onSocket = onSocket
+  }
+
+  createConnection(options: https.RequestOptions, callback?: (err: Error | null, stream: Duplex) => void) {
+    const socket = super.createConnection(options, callback)
+    if (socket) this.onSocket(socket)
+    return socket
+  }
+}
+
+const elapsed = (from: number | undefined, to: number | undefined) =>
+  from === undefined || to === undefined ? null : Math.round((to - from) * 10) / 10
+
+function phaseTimings(marks: PhaseMarks, end: number): HttpTimings {
+  const connected = marks.secure ?? marks.connect
+  return {
+    dns_ms: elapsed(marks.start, marks.lookup),
+    connect_ms: elapsed(marks.lookup ?? marks.start, marks.connect),
+    tls_ms: elapsed(marks.connect, marks.secure),
+    ttfb_ms: elapsed(connected, marks.firstByte),
+    transfer_ms: elapsed(marks.firstByte, marks.firstByte === undefined ? undefined : end),
+  }
+}
+
+/**
+ * Whether a status code matches one entry of an expected-status list
+ */
+export function statusMatches(code: number, expected: number | string): boolean {
+  if (typeof expected === 'number') return code === expected
+  const spec = expected.trim().toLowerCase()
+  const statusClass = /^([1-5])xx$/.exec(spec)
+  if (statusClass) return Math.floor(code / 100) === Number(statusClass[1])
+  const range = /^(\d{3})\s*-\s*(\d{3})$/.exec(spec)
+  if (range) return code >= Number(range[1]) && code <= Number(range[2])
+  return /^\d{3}$/.test(spec) && code === Number(spec)
+}
+
+/**
+ * Value at a JSON path (`$.a.b`, `$.list[0]`, `$['key with spaces']`), or found: false
+ */
+export function jsonPathValue(data: unknown, jsonPath: string): { found: boolean; value?: unknown } {
+  const steps: (string | number)[] = []
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]*)['"]\]/g
+  const rest = jsonPath.trim().replace(/^\$/, '')
+  let consumed = 0
+  for (const match of rest.matchAll(pattern)) {
+    if (match.index !== consumed) return { found: false }
+    consumed += match[0].length
+    steps.push(match[2] !== undefined ? Number(match[2]) : (match[1] ?? match[3]))
+  }
+  if (consumed !== rest.length) return { found: false }
+
+  let value = data
+  for (const step of steps) {
+    if (value === null || typeof value !== 'object' || !(step in (value as object))) {
+      return { found: false }
+    }
+    value = (value as Record<string | number, unknown>)[step]
+  }
+  return { found: true, value }
+}
+
+function describeValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value)
+}
+
+/**
+ * Assertion failures of a response against the check options, empty when it passes
+ */
+export function assertHttpResponse(statusCode: number, body: string, options: HttpCheckOptions): string[] {
+  const failures: string[] = []
+
+  if (options.expectedStatus && options.expectedStatus.length > 0) {
+    if (!options.expectedStatus.some(expected => statusMatches(statusCode, expected))) {
+      failures.push(`Status ${statusCode} not in expected ${options.expectedStatus.join(', ')}`)
+    }
+  } else if (statusCode < 200 || statusCode >= 400) {
+    failures.push(`Status ${statusCode}`)
+  }
+
+  if (options.bodyContains !== undefined && !body.includes(options.bodyContains)) {
+    failures.push(`Body does not contain ${JSON.stringify(options.bodyContains)}`)
+  }
+
+  if (options.bodyRegex !== undefined) {
+    try {
+      if (!new RegExp(options.bodyRegex).test(body)) {
+        failures.push(`Body does not match /${options.bodyRegex}/`)
+      }
+    } catch {
+      failures.push(`Invalid body regex /${options.bodyRegex}/`)
+    }
+  }
+
+  if (options.jsonPath !== undefined) {
+    let data: unknown
+    try {
+      data = JSON.parse(body)
+    } catch {
+      failures.push('Body is not valid JSON')
+      return failures
+    }
+    const { found, value } = jsonPathValue(data, options.jsonPath)
+    if (!found) {
+      failures.push(`JSON path ${options.jsonPath} not found`)
+    } else if (options.jsonExpected !== undefined && describeValue(value) !== describeValue(options.jsonExpected)) {
+      failures.push(`JSON path ${options.jsonPath} is ${describeValue(value)}, expected ${describeValue(options.jsonExpected)}`)
+    }
+  }
+
+  return failures
+}
+
+/**
+ * Check HTTP/HTTPS endpoint availability.
+ *
+ * Returns:
+ * - online: response received and every assertion passed
+ * - degraded: response received but an assertion failed (status, body, JSON path, size
+ *   or redirect limit); the error names each failure
+ * - offline: no response (connection, DNS, TLS or timeout error)
  */
 export async function checkHttp(
   url: string,
   logger: Logger,
-  timeout = 10000
+  timeout = 10000,
+  options: HttpCheckOptions = {}
 ): Promise<HttpResult> {
+  await probeGate.acquire()
   const startTime = Date.now()
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+
+  // Fresh agents per check, so every request opens (and times) its own connection
+  let marks: PhaseMarks = { start: performance.now() }
+  const onSocket: SocketListener = socket => {
+    const connection: PhaseMarks = { start: performance.now() }
+    marks = connection
+    socket.once('lookup', () => { connection.lookup = performance.now() })
+    socket.once('connect', () => { connection.connect = performance.now() })
+    socket.once('secureConnect', () => { connection.secure = performance.now() })
+    socket.once('data', () => { connection.firstByte = performance.now() })
+  }
+  const httpAgent = new TimingHttpAgent(onSocket)
+  const httpsAgent = new TimingHttpsAgent(onSocket, { rejectUnauthorized: options.tlsVerify !== false })
 
   try {
-    const response = await axios.get(url, {
+    const response = await axios.request<string>({
+      url,
+      method: options.method ?? 'GET',
+      data: options.body,
       timeout,
       validateStatus: () => true, // Don't throw on any status code
-      maxRedirects: 5,
+      maxRedirects,
+      maxContentLength: options.maxResponseBytes ?? -1,
+      responseType: 'text',
+      transformResponse: data => data, // keep the raw body for assertions
+      auth: options.auth?.type === 'basic'
+        ? { username: options.auth.username, password: options.auth.password }
+        : undefined,
+      httpAgent,
+      httpsAgent,
       headers: {
         'User-Agent': 'VelocityPulse-Agent/1.0',
+        ...options.headers,
+        ...(options.auth?.type === 'bearer' ? { Authorization: `Bearer ${options.auth.token}` } : {}),
       },
     })
 
     const responseTime = Date.now() - startTime
+    const timings = phaseTimings(marks, performance.now())
     const statusCode = response.status
-
-    // Determine status based on HTTP status code
-    let status: HttpResult['status']
-    if (statusCode >= 200 && statusCode < 400) {
-      status = 'online'
-    } else if (statusCode >= 400 && statusCode < 500) {
-      // Client errors might indicate the service is up but misconfigured
-      status = 'degraded'
-    } else if (statusCode >= 500) {
-      // Server errors
-      status = 'degraded'
-    } else {
-      status = 'online'
-    }
+    const failures = assertHttpResponse(statusCode, typeof response.data === 'string' ? response.data : '', options)
+    // Any response means the service is up; a failed assertion means it isn't healthy
+    const status: HttpResult['status'] = failures.length > 0 ? 'degraded' : 'online'
 
     logger.debug(`HTTP ${url}: ${status} (${statusCode}, ${responseTime}ms)`)
 
@@ -53,11 +277,26 @@ export async function checkHttp(
       status,
       response_time_ms: responseTime,
       status_code: statusCode,
+      timings,
+      error: failures.length > 0 ? failures.join('; ') : undefined,
     }
   } catch (error) {
     const responseTime = Date.now() - startTime
+    const timings = phaseTimings(marks, performance.now())
     let errorMsg: string
 
+    // The server answered, but past the size or redirect limit
+    if (axios.isAxiosError(error) && error.message.includes('maxContentLength')) {
+      errorMsg = `Response larger than ${options.maxResponseBytes} bytes`
+      logger.debug(`HTTP ${url}: degraded (${errorMsg})`)
+      return { url, status: 'degraded', response_time_ms: responseTime, timings, error: errorMsg }
+    }
+    if (axios.isAxiosError(error) && error.code === 'ERR_FR_TOO_MANY_REDIRECTS') {
+      errorMsg = `More than ${maxRedirects} redirects`
+      logger.debug(`HTTP ${url}: degraded (${errorMsg})`)
+      return { url, status: 'degraded', response_time_ms: responseTime, timings, error: errorMsg }
+    }
+
     if (axios.isAxiosError(error)) {
       if (error.code === 'ECONNABORTED') {
         errorMsg = 'Connection timeout'
@@ -80,6 +319,7 @@ export async function checkHttp(
       url,
       status: 'offline',
       response_time_ms: responseTime > timeout ? null : responseTime,
+      timings,
       error: errorMsg,
     }
   }
@@ -1,6 +1,7 @@
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
 
 const execAsync = promisify(exec)
 
@@ -107,6 +108,8 @@ export async function detectOs(
  * Get TTL from ping response
  */
 async function getTtl(ip: string, logger: Logger): Promise<number | null> {
+  await probeGate.acquire()
+
   try {
     const isWindows = process.platform === 'win32'
     const cmd = isWindows
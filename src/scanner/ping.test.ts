@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock child_process - promisify needs the callback-style function
+vi.mock('child_process', () => {
+  const mockExecFile = vi.fn()
+  return { execFile: mockExecFile }
+})
+
+import { parsePingReplies, summarizePing, pingQuality, isPingTarget } from './ping.js'
+import { execFile } from 'child_process'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+const options = { count: 4, intervalMs: 200, maxLossPercent: 5, maxJitterMs: 30 }
+
+function mockExecResult(error: Error | null, stdout: string) {
+  vi.mocked(execFile).mockImplementation((...args: unknown[]) => {
+    const callback = args[args.length - 1] as (err: Error | null, result: { stdout: string; stderr: string }) => void
+    if (typeof callback === 'function') {
+      process.nextTick(() => callback(error, { stdout, stderr: '' }))
+    }
+    return {} as ReturnType<typeof execFile>
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('parsePingReplies', () => {
+  it('parses Unix replies, skipping duplicates', () => {
+    const stdout = [
+      'PING 10.0.0.1 (10.0.0.1) 56(84) bytes of data.',
+      '64 bytes from 10.0.0.1: icmp_seq=1 ttl=63 time=10.5 ms',
+      '64 bytes from 10.0.0.1: icmp_seq=1 ttl=63 time=10.9 ms (DUP!)',
+      '64 bytes from 10.0.0.1: icmp_seq=3 ttl=63 time=12.1 ms',
+      '',
+      '--- 10.0.0.1 ping statistics ---',
+      '3 packets transmitted, 2 received, +1 duplicates, 33.3333% packet loss, time 402ms',
+    ].join('\n')
+
+    expect(parsePingReplies(stdout, 'linux')).toEqual({ rtts: [10.5, 12.1], ttl: 63 })
+  })
+
+  it('parses Windows replies, ignoring unreachable messages', () => {
+    const stdout = [
+      'Pinging 10.0.0.1 with 32 bytes of data:',
+      'Reply from 10.0.0.1: bytes=32 time=14ms TTL=128',
+      'Reply from 10.0.0.254: Destination host unreachable.',
+      'Reply from 10.0.0.1: bytes=32 time<1ms TTL=128',
+    ].join('\r\n')
+
+    expect(parsePingReplies(stdout, 'win32')).toEqual({ rtts: [14, 1], ttl: 128 })
+  })
+})
+
+describe('summarizePing', () => {
+  it('computes loss, min/avg/max and mdev jitter', () => {
+    expect(summarizePing([10, 20, 30], 4, 64)).toEqual({
+      packets_sent: 4,
+      packets_received: 3,
+      packet_loss_percent: 25,
+      min_ms: 10,
+      avg_ms: 20,
+      max_ms: 30,
+      jitter_ms: 8.16,
+      ttl: 64,
+    })
+  })
+
+  it('reports full loss without round-trip figures', () => {
+    expect(summarizePing([], 4, null)).toMatchObject({ packet_loss_percent: 100, avg_ms: null, jitter_ms: null })
+  })
+})
+
+describe('pingQuality', () => {
+  const reply = (seq: number, time: number) => `64 bytes from 10.0.0.1: icmp_seq=${seq} ttl=64 time=${time} ms`
+  const originalPlatform = process.platform
+
+  beforeEach(() => {
+    Object.defineProperty(process, 'platform', { value: 'linux' })
+  })
+
+  afterEach(() => {
+    Object.defineProperty(process, 'platform', { value: originalPlatform })
+  })
+
+  it('is online when loss and jitter are within thresholds', async () => {
+    mockExecResult(null, [reply(1, 10), reply(2, 11), reply(3, 10), reply(4, 11)].join('\n'))
+
+    const result = await pingQuality('10.0.0.1', mockLogger, options)
+
+    expect(result.status).toBe('online')
+    expect(result.response_time_ms).toBe(10.5)
+    expect(result.stats.packet_loss_percent).toBe(0)
+  })
+
+  it('is degraded on packet loss, using output of a failed command', async () => {
+    const error = Object.assign(new Error('Command failed'), { stdout: [reply(1, 10), reply(3, 10)].join('\n') })
+    mockExecResult(error, '')
+
+    const result = await pingQuality('10.0.0.1', mockLogger, options)
+
+    expect(result.status).toBe('degraded')
+    expect(result.stats.packet_loss_percent).toBe(50)
+    expect(result.error).toBe('50% packet loss')
+  })
+
+  it('is degraded on jitter', async () => {
+    mockExecResult(null, [reply(1, 10), reply(2, 120), reply(3, 10), reply(4, 120)].join('\n'))
+
+    const result = await pingQuality('10.0.0.1', mockLogger, options)
+
+    expect(result.status).toBe('degraded')
+    expect(result.error).toBe('55ms jitter')
+  })
+
+  it('is offline without replies', async () => {
+    mockExecResult(new Error('Command failed'), '')
+
+    const result = await pingQuality('10.0.0.1', mockLogger, options)
+
+    expect(result.status).toBe('offline')
+    expect(result.stats.packets_received).toBe(0)
+  })
+
+  it('passes the target as its own argument', async () => {
+    mockExecResult(null, reply(1, 10))
+
+    await pingQuality('wan-gw.example.com', mockLogger, { ...options, count: 1 })
+
+    expect(vi.mocked(execFile).mock.calls[0].slice(0, 2)).toEqual([
+      'ping', ['-c', '1', '-i', '0.2', '-W', '2', 'wan-gw.example.com'],
+    ])
+  })
+
+  it('does not run ping for a target that is not a host name or IP', async () => {
+    const result = await pingQuality('10.0.0.1; rm -rf /', mockLogger, options)
+
+    expect(result).toMatchObject({ status: 'offline', error: 'Invalid ping target' })
+    expect(execFile).not.toHaveBeenCalled()
+  })
+})
+
+describe('isPingTarget', () => {
+  it('accepts IP addresses and RFC 1123 host names only', () => {
+    expect(isPingTarget('10.0.0.1')).toBe(true)
+    expect(isPingTarget('fe80::1')).toBe(true)
+    expect(isPingTarget('core-sw1.branch.example.com')).toBe(true)
+    expect(isPingTarget('-f')).toBe(false)
+    expect(isPingTarget('host$(id)')).toBe(false)
+    expect(isPingTarget('a..b')).toBe(false)
+  })
+})
@@ -1,8 +1,20 @@
-import { exec } from 'child_process'
+import { execFile } from 'child_process'
+import { isIP } from 'net'
 import { promisify } from 'util'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
 
-const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
+
+// RFC 1123 host name: dot-separated labels of letters, digits and inner hyphens
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i
+
+/**
+ * Whether a ping target is an IP address or a host name, so it can't be read as a ping option
+ */
+export function isPingTarget(target: string): boolean {
+  return isIP(target) !== 0 || HOSTNAME_PATTERN.test(target)
+}
 
 export interface PingResult {
   ip_address: string
@@ -18,19 +30,26 @@ export async function pingHost(ip: string, logger: Logger): Promise<PingResult>
   const platform = process.platform
   const timeout = 5000 // 5 seconds
 
+  if (!isPingTarget(ip)) {
+    logger.debug(`Ping ${ip}: offline (invalid target)`)
+    return { ip_address: ip, status: 'offline', response_time_ms: null, error: 'Invalid ping target' }
+  }
+
+  await probeGate.acquire()
+
   try {
-    let command: string
+    let args: string[]
 
     if (platform === 'win32') {
       // Windows: ping -n 1 -w 5000 (count 1, timeout 5000ms)
-      command = `ping -n 1 -w 5000 ${ip}`
+      args = ['-n', '1', '-w', '5000', ip]
     } else {
       // Linux/macOS: ping -c 1 -W 5 (count 1, timeout 5 seconds)
-      command = `ping -c 1 -W 5 ${ip}`
+      args = ['-c', '1', '-W', '5', ip]
     }
 
     const startTime = Date.now()
-    const { stdout } = await execAsync(command, { timeout })
+    const { stdout } = await execFileAsync('ping', args, { timeout })
     const endTime = Date.now()
 
     // Parse response time from output
@@ -89,6 +108,172 @@ export async function pingHost(ip: string, logger: Logger): Promise<PingResult>
   }
 }
 
+export interface PingQualityOptions {
+  // Echo requests to send
+  count: number
+  // Delay between requests (the Windows ping command always waits about a second)
+  intervalMs: number
+  // Loss (%) above which the host is degraded
+  maxLossPercent: number
+  // Jitter (ms) above which the host is degraded
+  maxJitterMs: number
+}
+
+/**
+ * Loss, round-trip and jitter figures of one ping burst
+ */
+export interface PingQualityStats {
+  packets_sent: number
+  packets_received: number
+  packet_loss_percent: number
+  min_ms: number | null
+  avg_ms: number | null
+  max_ms: number | null
+  // Standard deviation of the round-trip times (ping's mdev)
+  jitter_ms: number | null
+  // TTL of the first reply
+  ttl: number | null
+}
+
+export interface PingQualityResult {
+  ip_address: string
+  status: 'online' | 'offline' | 'degraded'
+  // Average round-trip time
+  response_time_ms: number | null
+  stats: PingQualityStats
+  error?: string
+}
+
+// Wait per echo reply before counting the packet as lost
+const REPLY_TIMEOUT_MS = 2000
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Round-trip times and TTL of the echo replies in ping output. Duplicates and
+ * "destination unreachable" replies from routers are not counted.
+ */
+export function parsePingReplies(stdout: string, platform: NodeJS.Platform): { rtts: number[]; ttl: number | null } {
+  const rtts: number[] = []
+  let ttl: number | null = null
+
+  for (const line of stdout.split(/\r?\n/)) {
+    if (line.includes('DUP!')) continue
+    // Windows: "Reply from 10.0.0.1: bytes=32 time=12ms TTL=64" (or "time<1ms")
+    // Unix: "64 bytes from 10.0.0.1: icmp_seq=1 ttl=64 time=12.3 ms"
+    const match = platform === 'win32'
+      ? /Reply from .*time[=<]([\d.]+)\s*ms.*TTL=(\d+)/i.exec(line)
+      : /bytes from .*ttl=(\d+).*time[=<]([\d.]+)\s*ms/i.exec(line)
+    if (!match) continue
+
+    const [time, replyTtl] = platform === 'win32' ? [match[1], match[2]] : [match[2], match[1]]
+    rtts.push(parseFloat(time))
+    ttl ??= parseInt(replyTtl, 10)
+  }
+
+  return { rtts, ttl }
+}
+
+/**
+ * Loss, min/avg/max and jitter of a burst of `sent` echo requests
+ */
+export function summarizePing(rtts: number[], sent: number, ttl: number | null): PingQualityStats {
+  const received = Math.min(rtts.length, sent)
+  const stats: PingQualityStats = {
+    packets_sent: sent,
+    packets_received: received,
+    packet_loss_percent: sent > 0 ? round(((sent - received) / sent) * 100) : 100,
+    min_ms: null,
+    avg_ms: null,
+    max_ms: null,
+    jitter_ms: null,
+    ttl,
+  }
+  if (received === 0) return stats
+
+  const avg = rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length
+  const meanSquare = rtts.reduce((sum, rtt) => sum + rtt * rtt, 0) / rtts.length
+  return {
+    ...stats,
+    min_ms: round(Math.min(...rtts)),
+    avg_ms: round(avg),
+    max_ms: round(Math.max(...rtts)),
+    jitter_ms: round(Math.sqrt(Math.max(0, meanSquare - avg * avg))),
+  }
+}
+
+/**
+ * Send a burst of echo requests and report packet loss, round-trip times and jitter.
+ *
+ * Returns:
+ * - online: replies received, loss and jitter within the thresholds
+ * - degraded: replies received, but loss or jitter above a threshold
+ * - offline: no replies at all
+ */
+export async function pingQuality(ip: string, logger: Logger, options: PingQualityOptions): Promise<PingQualityResult> {
+  const platform = process.platform
+  const count = Math.max(1, Math.floor(options.count))
+  // Unix ping takes the interval in seconds; below 0.2s it needs root
+  const interval = Math.max(0.2, options.intervalMs / 1000)
+
+  if (!isPingTarget(ip)) {
+    const stats = summarizePing([], count, null)
+    return { ip_address: ip, status: 'offline', response_time_ms: null, stats, error: 'Invalid ping target' }
+  }
+
+  let args: string[]
+  if (platform === 'win32') {
+    args = ['-n', String(count), '-w', String(REPLY_TIMEOUT_MS), ip]
+  } else if (platform === 'darwin') {
+    // macOS: -W is in milliseconds
+    args = ['-c', String(count), '-i', String(interval), '-W', String(REPLY_TIMEOUT_MS), ip]
+  } else {
+    args = ['-c', String(count), '-i', String(interval), '-W', String(REPLY_TIMEOUT_MS / 1000), ip]
+  }
+  const timeout = count * Math.max(options.intervalMs, platform === 'win32' ? 1000 : 0) + REPLY_TIMEOUT_MS + 5000
+
+  // Every packet of the burst counts against the probe rate
+  await probeGate.acquire(count)
+
+  let stdout = ''
+  let error: string | undefined
+  try {
+    stdout = (await execFileAsync('ping', args, { timeout })).stdout
+  } catch (err) {
+    // ping exits non-zero when replies are missing; its output is still usable
+    stdout = (err as { stdout?: string }).stdout ?? ''
+    error = err instanceof Error ? err.message : 'Unknown error'
+  }
+
+  const { rtts, ttl } = parsePingReplies(stdout, platform)
+  const stats = summarizePing(rtts, count, ttl)
+
+  if (stats.packets_received === 0) {
+    logger.debug(`Ping quality ${ip}: offline (no replies)`)
+    return { ip_address: ip, status: 'offline', response_time_ms: null, stats, error: error ?? 'No replies' }
+  }
+
+  const problems: string[] = []
+  if (stats.packet_loss_percent > options.maxLossPercent) {
+    problems.push(`${stats.packet_loss_percent}% packet loss`)
+  }
+  if (stats.jitter_ms !== null && stats.jitter_ms > options.maxJitterMs) {
+    problems.push(`${stats.jitter_ms}ms jitter`)
+  }
+
+  logger.debug(
+    `Ping quality ${ip}: ${stats.packets_received}/${stats.packets_sent} replies, ` +
+    `avg ${stats.avg_ms}ms, jitter ${stats.jitter_ms}ms`
+  )
+  return {
+    ip_address: ip,
+    status: problems.length > 0 ? 'degraded' : 'online',
+    response_time_ms: stats.avg_ms,
+    stats,
+    error: problems.length > 0 ? problems.join(', ') : undefined,
+  }
+}
+
 /**
  * Ping multiple hosts concurrently with a concurrency limit
  */
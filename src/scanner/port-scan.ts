@@ -1,5 +1,6 @@
 import * as net from 'net'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
 
 /**
  * Top 20 most commonly used TCP ports for network scanning
@@ -97,6 +98,7 @@ export async function portScan(
       while (queue.length > 0) {
         const port = queue.shift()
         if (port === undefined) break
+        await probeGate.acquire()
         const isOpen = await checkPort(ip, port, timeout)
         if (isOpen) {
           openPorts.push(port)
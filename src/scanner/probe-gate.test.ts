@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock child_process - promisify needs the callback-style function
+vi.mock('child_process', () => {
+  const mockExecFile = vi.fn()
+  return { execFile: mockExecFile }
+})
+
+import { ProbeGate, probeGate } from './probe-gate.js'
+import { pingSweep } from './ping-sweep.js'
+import { runCheck } from '../monitor/checks.js'
+import { execFile } from 'child_process'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+async function acquireAll(gate: ProbeGate, counts: number[]): Promise<number[]> {
+  const start = Date.now()
+  const times: number[] = []
+  const acquiring = Promise.all(counts.map(count => gate.acquire(count).then(() => times.push(Date.now() - start))))
+  await vi.runAllTimersAsync()
+  await acquiring
+  return times
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  probeGate.setRate(0)
+})
+
+describe('ProbeGate', () => {
+  it('does not wait when unlimited', async () => {
+    const gate = new ProbeGate()
+    expect(await acquireAll(gate, [1, 1, 1])).toEqual([0, 0, 0])
+  })
+
+  it('spaces probes evenly at the configured rate', async () => {
+    const gate = new ProbeGate()
+    gate.setRate(5)
+    expect(await acquireAll(gate, [1, 1, 1, 1])).toEqual([0, 200, 400, 600])
+  })
+
+  it('allows a burst of a tenth of a second of probes', async () => {
+    const gate = new ProbeGate()
+    gate.setRate(50)
+    const times = await acquireAll(gate, Array(7).fill(1))
+    expect(times).toEqual([0, 0, 0, 0, 0, 20, 40])
+  })
+
+  it('charges a batch for every probe in it', async () => {
+    const gate = new ProbeGate()
+    gate.setRate(10)
+    expect(await acquireAll(gate, [1, 20, 1])).toEqual([0, 100, 2100])
+  })
+
+  it('keeps discovery and checks together under the cap', async () => {
+    // Each ping invocation, with the number of packets it sends
+    const probes: { at: number; packets: number }[] = []
+    vi.mocked(execFile).mockImplementation((...args: unknown[]) => {
+      const argv = args[1] as string[]
+      const packets = Number(argv[argv.indexOf('-c') + 1])
+      probes.push({ at: Date.now(), packets })
+      const callback = args[args.length - 1] as (err: Error | null, result: { stdout: string; stderr: string }) => void
+      const stdout = Array.from({ length: packets }, (_, i) => `64 bytes from 10.0.0.1: icmp_seq=${i + 1} ttl=64 time=1.0 ms`).join('\n')
+      process.nextTick(() => callback(null, { stdout, stderr: '' }))
+      return {} as ReturnType<typeof execFile>
+    })
+
+    probeGate.setRate(10)
+    const start = Date.now()
+    const running = Promise.all([
+      pingSweep('10.0.1.0/29', mockLogger, 8),
+      runCheck('10.0.0.1', { check_type: 'ping' } as Parameters<typeof runCheck>[1], mockLogger),
+      runCheck('10.0.0.2', { check_type: 'ping_quality', ping_count: 5 } as Parameters<typeof runCheck>[1], mockLogger),
+    ])
+    await vi.runAllTimersAsync()
+    await running
+
+    // At 10 probes/s with a burst of one, the nth probe starts no earlier than (n - 1) * 100ms
+    let sent = 0
+    for (const probe of probes.sort((a, b) => a.at - b.at)) {
+      expect(probe.at - start).toBeGreaterThanOrEqual(sent * 100)
+      sent += probe.packets
+    }
+    expect(sent).toBeGreaterThanOrEqual(8)
+  })
+})
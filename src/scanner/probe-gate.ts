@@ -0,0 +1,46 @@
+/**
+ * Rate limit on probes sent to monitored and discovered hosts (pings, TCP connects, HTTP
+ * requests, TLS handshakes, SNMP queries), shared by every scanner so that discovery,
+ * scheduled checks and on-demand scans together stay under one probes-per-second cap.
+ *
+ * Probes are handed evenly spaced start slots. Unused capacity accrues up to a burst of a
+ * tenth of a second's worth of probes, so a quiet agent can send a few at once.
+ */
+export class ProbeGate {
+  private probesPerSecond = 0
+  // Start of the next free slot
+  private nextAt = 0
+
+  /**
+   * Set the cap in probes per second (0 = unlimited)
+   */
+  setRate(probesPerSecond: number): void {
+    this.probesPerSecond = Math.max(0, probesPerSecond)
+    this.nextAt = 0
+  }
+
+  getRate(): number {
+    return this.probesPerSecond
+  }
+
+  /**
+   * Wait until `count` probes may be sent. A batch larger than the burst (e.g. a ping_quality
+   * burst) starts when its first slot comes up and pushes later probes back by its full size.
+   */
+  async acquire(count = 1): Promise<void> {
+    if (this.probesPerSecond <= 0 || count <= 0) return
+
+    const now = Date.now()
+    const spacing = 1000 / this.probesPerSecond
+    const burst = Math.max(1, this.probesPerSecond / 10)
+    const startAt = Math.max(this.nextAt, now - (burst - 1) * spacing)
+    this.nextAt = startAt + count * spacing
+
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now))
+    }
+  }
+}
+
+// Set from CHECK_RATE_LIMIT at startup
+export const probeGate = new ProbeGate()
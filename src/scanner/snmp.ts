@@ -1,4 +1,5 @@
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
 
 export interface SnmpInfo {
   sysName?: string
@@ -32,6 +33,8 @@ export async function querySnmp(
   community = 'public',
   timeout = 3000
 ): Promise<SnmpInfo | null> {
+  await probeGate.acquire()
+
   try {
     // Dynamic import to handle missing module gracefully
     const snmp = await import('net-snmp')
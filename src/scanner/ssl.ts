@@ -1,5 +1,71 @@
 import * as tls from 'tls'
+import * as net from 'net'
+import { X509Certificate } from 'crypto'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
+import { startTls, type StartTlsProtocol } from './starttls.js'
+
+export type TlsProtocol = 'TLSv1' | 'TLSv1.1' | 'TLSv1.2' | 'TLSv1.3'
+
+// fail: the check goes offline, warn: degraded, ignore: only reported
+export type SslPolicyAction = 'fail' | 'warn' | 'ignore'
+
+/**
+ * What the SSL check enforces beyond expiry. Each inspected item has an action and, where it
+ * applies, a threshold; unset fields take the defaults below.
+ */
+export interface SslPolicy {
+  // Chain validation against the system store or the check's CA (default: fail)
+  chain?: SslPolicyAction
+  // Target hostname/IP against the certificate SANs and CN (default: fail)
+  hostname?: SslPolicyAction
+  // Negotiated protocol below min_protocol (default: warn below TLSv1.2)
+  protocol?: SslPolicyAction
+  min_protocol?: TlsProtocol
+  // Negotiated cipher containing one of forbidden_ciphers, case-insensitive (default: warn)
+  cipher?: SslPolicyAction
+  forbidden_ciphers?: string[]
+  // RSA or EC key smaller than min_rsa_bits/min_ec_bits (default: warn below 2048/256)
+  key?: SslPolicyAction
+  min_rsa_bits?: number
+  min_ec_bits?: number
+  // Signature algorithm containing one of forbidden_signature_algorithms (default: warn on MD5/SHA-1)
+  signature?: SslPolicyAction
+  forbidden_signature_algorithms?: string[]
+  // Leaf SHA-256 fingerprint not among the pinned fingerprints; only applies when pins are set
+  fingerprint?: SslPolicyAction
+  fingerprints?: string[]
+}
+
+export interface SslCheckOptions {
+  // Connect in plain text and upgrade with this protocol's STARTTLS instead of implicit TLS
+  starttls?: StartTlsProtocol
+  // PEM CA certificates to validate the chain against instead of the system store
+  ca?: string
+  policy?: SslPolicy
+}
+
+/**
+ * What was negotiated and presented, whatever the policy
+ */
+export interface SslDetails {
+  chain_valid: boolean
+  chain_error?: string
+  hostname_match: boolean
+  hostname_error?: string
+  protocol: string | null
+  cipher: string | null
+  // rsa, rsa-pss, ec, ed25519, ...
+  key_type: string | null
+  key_bits: number | null
+  signature_algorithm: string | null
+  fingerprint_sha256: string | null
+}
+
+export interface SslPolicyViolation {
+  action: Exclude<SslPolicyAction, 'ignore'>
+  message: string
+}
 
 export interface SslResult {
   hostname: string
@@ -10,35 +76,214 @@ export interface SslResult {
   ssl_issuer?: string
   ssl_subject?: string
   days_until_expiry?: number
+  details?: SslDetails
   error?: string
 }
 
+const DEFAULT_POLICY: Required<SslPolicy> = {
+  chain: 'fail',
+  hostname: 'fail',
+  protocol: 'warn',
+  min_protocol: 'TLSv1.2',
+  cipher: 'warn',
+  forbidden_ciphers: ['NULL', 'EXPORT', 'RC4', 'DES', 'MD5'],
+  key: 'warn',
+  min_rsa_bits: 2048,
+  min_ec_bits: 256,
+  signature: 'warn',
+  forbidden_signature_algorithms: ['md5', 'sha1'],
+  fingerprint: 'fail',
+  fingerprints: [],
+}
+
+const PROTOCOLS: TlsProtocol[] = ['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3']
+
+// Signature algorithm OIDs, named as OpenSSL does
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '1.2.840.113549.1.1.4': 'md5WithRSAEncryption',
+  '1.2.840.113549.1.1.5': 'sha1WithRSAEncryption',
+  '1.2.840.113549.1.1.10': 'rsassaPss',
+  '1.2.840.113549.1.1.11': 'sha256WithRSAEncryption',
+  '1.2.840.113549.1.1.12': 'sha384WithRSAEncryption',
+  '1.2.840.113549.1.1.13': 'sha512WithRSAEncryption',
+  '1.2.840.10040.4.3': 'dsa-with-SHA1',
+  '1.2.840.10045.4.1': 'ecdsa-with-SHA1',
+  '1.2.840.10045.4.3.2': 'ecdsa-with-SHA256',
+  '1.2.840.10045.4.3.3': 'ecdsa-with-SHA384',
+  '1.2.840.10045.4.3.4': 'ecdsa-with-SHA512',
+  '1.3.101.112': 'ED25519',
+  '1.3.101.113': 'ED448',
+}
+
+// Start and end of the content of the DER element at offset
+function derElement(der: Buffer, offset: number): { start: number; end: number } {
+  let length = der[offset + 1]
+  let start = offset + 2
+  if (length & 0x80) {
+    const bytes = length & 0x7f
+    length = 0
+    for (let i = 0; i < bytes; i++) length = length * 256 + der[start + i]
+    start += bytes
+  }
+  return { start, end: start + length }
+}
+
+/**
+ * Signature algorithm of a DER certificate: the OID in the AlgorithmIdentifier that follows
+ * the TBSCertificate. Unknown OIDs are returned in dotted form.
+ */
+export function signatureAlgorithm(der: Buffer): string | null {
+  try {
+    const certificate = derElement(der, 0)
+    const tbs = derElement(der, certificate.start)
+    const algorithm = derElement(der, tbs.end)
+    if (der[algorithm.start] !== 0x06) return null
+    const oid = derElement(der, algorithm.start)
+
+    const parts = [Math.floor(der[oid.start] / 40), der[oid.start] % 40]
+    let value = 0
+    for (let i = oid.start + 1; i < oid.end; i++) {
+      value = value * 128 + (der[i] & 0x7f)
+      if (!(der[i] & 0x80)) {
+        parts.push(value)
+        value = 0
+      }
+    }
+    const dotted = parts.join('.')
+    return SIGNATURE_ALGORITHMS[dotted] ?? dotted
+  } catch {
+    return null
+  }
+}
+
+const normalizeFingerprint = (fingerprint: string) => fingerprint.replace(/:/g, '').toUpperCase()
+
+/**
+ * Policy violations of an inspected connection, in the order of the policy fields
+ */
+export function evaluateSslPolicy(details: SslDetails, policy: SslPolicy = {}): SslPolicyViolation[] {
+  const p = { ...DEFAULT_POLICY, ...policy }
+  const violations: SslPolicyViolation[] = []
+  const add = (action: SslPolicyAction, message: string) => {
+    if (action !== 'ignore') violations.push({ action, message })
+  }
+  const matchesAny = (value: string, patterns: string[]) =>
+    patterns.some(pattern => value.toLowerCase().includes(pattern.toLowerCase()))
+
+  if (!details.chain_valid) {
+    add(p.chain, `Untrusted certificate chain (${details.chain_error ?? 'unknown error'})`)
+  }
+  if (!details.hostname_match) {
+    add(p.hostname, details.hostname_error ?? 'Hostname does not match certificate')
+  }
+  if (details.protocol && PROTOCOLS.indexOf(details.protocol as TlsProtocol) < PROTOCOLS.indexOf(p.min_protocol)) {
+    add(p.protocol, `Protocol ${details.protocol} below ${p.min_protocol}`)
+  }
+  if (details.cipher && matchesAny(details.cipher, p.forbidden_ciphers)) {
+    add(p.cipher, `Weak cipher ${details.cipher}`)
+  }
+  if (details.key_bits !== null) {
+    const minBits = details.key_type === 'ec' ? p.min_ec_bits
+      : details.key_type?.startsWith('rsa') ? p.min_rsa_bits
+        : 0
+    if (details.key_bits < minBits) {
+      add(p.key, `${details.key_type!.toUpperCase()} key of ${details.key_bits} bits below ${minBits}`)
+    }
+  }
+  if (details.signature_algorithm && matchesAny(details.signature_algorithm, p.forbidden_signature_algorithms)) {
+    add(p.signature, `Weak signature algorithm ${details.signature_algorithm}`)
+  }
+  if (p.fingerprints.length > 0 && details.fingerprint_sha256) {
+    const pins = p.fingerprints.map(normalizeFingerprint)
+    if (!pins.includes(normalizeFingerprint(details.fingerprint_sha256))) {
+      add(p.fingerprint, `Fingerprint ${details.fingerprint_sha256} is not pinned`)
+    }
+  }
+
+  return violations
+}
+
+function inspect(socket: tls.TLSSocket, hostname: string, cert: tls.PeerCertificate): SslDetails {
+  const hostnameError = tls.checkServerIdentity(hostname, cert)
+  let keyType: string | null = null
+  try {
+    keyType = new X509Certificate(cert.raw).publicKey.asymmetricKeyType ?? null
+  } catch {
+    // Unparseable key; reported as unknown
+  }
+
+  return {
+    chain_valid: socket.authorized,
+    chain_error: socket.authorizationError ? String(socket.authorizationError) : undefined,
+    hostname_match: !hostnameError,
+    hostname_error: hostnameError?.message,
+    protocol: socket.getProtocol(),
+    cipher: socket.getCipher()?.name ?? null,
+    key_type: keyType,
+    key_bits: cert.bits ?? null,
+    signature_algorithm: signatureAlgorithm(cert.raw),
+    fingerprint_sha256: cert.fingerprint256 ?? null,
+  }
+}
+
 /**
  * Check SSL/TLS certificate for a host.
  * Uses Node.js native tls module - no external dependencies.
  *
  * Returns:
  * - online: valid certificate with > warnDays until expiry
- * - degraded: certificate valid but expiring within warnDays
- * - offline: connection failed or certificate expired
+ * - degraded: certificate valid but expiring within warnDays, or a 'warn' policy violation
+ * - offline: connection failed, STARTTLS refused, certificate expired, or a 'fail' policy violation
  */
 export async function checkSsl(
   hostname: string,
   logger: Logger,
   port = 443,
   warnDays = 30,
-  timeout = 10000
+  timeout = 10000,
+  options: SslCheckOptions = {}
 ): Promise<SslResult> {
+  await probeGate.acquire()
   const startTime = Date.now()
 
+  let plainSocket: net.Socket | undefined
+  if (options.starttls) {
+    try {
+      plainSocket = await startTls(options.starttls, hostname, port, timeout)
+    } catch (error) {
+      const responseTime = Date.now() - startTime
+      const errorMsg = `STARTTLS (${options.starttls}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      logger.debug(`SSL ${hostname}:${port}: ${errorMsg}`)
+      return {
+        hostname,
+        port,
+        status: 'offline',
+        response_time_ms: responseTime >= timeout ? null : responseTime,
+        error: errorMsg,
+      }
+    }
+  }
+
+  // The handshake gets whatever the STARTTLS dialogue left of the timeout
+  const remaining = Math.max(1, timeout - (Date.now() - startTime))
+
   return new Promise((resolve) => {
     const socket = tls.connect(
       {
         host: hostname,
         port,
-        servername: hostname, // SNI
-        timeout,
+        // Upgraded connection, when negotiated with STARTTLS
+        socket: plainSocket,
+        servername: net.isIP(hostname) ? undefined : hostname, // SNI
+        timeout: remaining,
+        ca: options.ca,
+        // Accept old protocols and ciphers so they can be reported instead of failing the handshake;
+        // OpenSSL's default security level refuses TLS 1.0/1.1 even when minVersion allows them
+        minVersion: 'TLSv1',
+        ciphers: 'DEFAULT@SECLEVEL=0',
         rejectUnauthorized: false, // We want to inspect even expired certs
+        // Hostname is checked separately so `authorized` only reflects the chain
+        checkServerIdentity: () => undefined,
       },
       () => {
         const responseTime = Date.now() - startTime
@@ -65,10 +310,13 @@ export async function checkSsl(
         const issuer = cert.issuer
           ? Object.entries(cert.issuer).map(([k, v]) => `${k}=${v}`).join(', ')
           : undefined
+        const commonName = Array.isArray(cert.subject?.CN) ? cert.subject.CN[0] : cert.subject?.CN
         const subject = cert.subject
-          ? (cert.subject.CN || Object.entries(cert.subject).map(([k, v]) => `${k}=${v}`).join(', '))
+          ? (commonName || Object.entries(cert.subject).map(([k, v]) => `${k}=${v}`).join(', '))
           : undefined
 
+        const details = inspect(socket, hostname, cert)
+        const violations = evaluateSslPolicy(details, options.policy)
         socket.destroy()
 
         let status: SslResult['status']
@@ -83,6 +331,15 @@ export async function checkSsl(
           logger.debug(`SSL ${hostname}:${port}: valid, expires in ${daysUntilExpiry} days (${responseTime}ms)`)
         }
 
+        if (violations.some(v => v.action === 'fail')) {
+          status = 'offline'
+        } else if (violations.length > 0 && status === 'online') {
+          status = 'degraded'
+        }
+        if (violations.length > 0) {
+          logger.debug(`SSL ${hostname}:${port}: ${violations.map(v => v.message).join('; ')}`)
+        }
+
         resolve({
           hostname,
           port,
@@ -92,6 +349,8 @@ export async function checkSsl(
           ssl_issuer: issuer,
           ssl_subject: subject,
           days_until_expiry: daysUntilExpiry,
+          details,
+          error: violations.length > 0 ? violations.map(v => v.message).join('; ') : undefined,
         })
       }
     )
@@ -112,7 +371,7 @@ export async function checkSsl(
       })
     })
 
-    socket.on('timeout', () => {
+    const onTimeout = () => {
       socket.destroy()
       logger.debug(`SSL ${hostname}:${port}: timeout`)
 
@@ -123,6 +382,11 @@ export async function checkSsl(
         response_time_ms: null,
         error: 'Connection timeout',
       })
-    })
+    }
+    socket.on('timeout', onTimeout)
+
+    // The idle timeout never fires on a socket handed over from STARTTLS, so also keep a deadline
+    const deadline = setTimeout(onTimeout, remaining)
+    socket.once('close', () => clearTimeout(deadline))
   })
 }
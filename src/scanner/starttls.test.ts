@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createServer, type Server, type Socket } from 'net'
+import type { AddressInfo } from 'net'
+import { startTls } from './starttls.js'
+
+let server: Server | null = null
+
+// Plain-text server running one scripted dialogue per connection
+async function serve(dialogue: (socket: Socket) => void): Promise<number> {
+  server = createServer(dialogue)
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve))
+  return (server.address() as AddressInfo).port
+}
+
+// Answer each received line (without CRLF) from a table, ignoring anything else
+function lines(replies: Record<string, string>) {
+  return (socket: Socket) => {
+    let buffer = ''
+    socket.on('data', chunk => {
+      buffer += chunk.toString()
+      let end: number
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const reply = replies[buffer.slice(0, end)]
+        buffer = buffer.slice(end + 2)
+        if (reply) socket.write(reply)
+      }
+    })
+  }
+}
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve))
+  server = null
+})
+
+describe('startTls', () => {
+  it('upgrades SMTP after a multi-line EHLO reply', async () => {
+    const port = await serve(socket => {
+      socket.write('220-mail.example.com ESMTP\r\n220 ready\r\n')
+      lines({
+        'EHLO velocitypulse-agent': '250-mail.example.com\r\n250-PIPELINING\r\n250 STARTTLS\r\n',
+        'STARTTLS': '220 2.0.0 Ready to start TLS\r\n',
+      })(socket)
+    })
+
+    const socket = await startTls('smtp', '127.0.0.1', port, 2000)
+    expect(socket.destroyed).toBe(false)
+    socket.destroy()
+  })
+
+  it('rejects an SMTP server without STARTTLS', async () => {
+    const port = await serve(socket => {
+      socket.write('220 ready\r\n')
+      lines({ 'EHLO velocitypulse-agent': '250-mail.example.com\r\n250 8BITMIME\r\n' })(socket)
+    })
+
+    await expect(startTls('smtp', '127.0.0.1', port, 2000)).rejects.toThrow('Server does not offer STARTTLS')
+  })
+
+  it('upgrades IMAP, POP3 and FTP', async () => {
+    const imap = await serve(socket => {
+      socket.write('* OK IMAP4rev1 ready\r\n')
+      lines({ 'a1 STARTTLS': 'a1 OK Begin TLS negotiation now\r\n' })(socket)
+    })
+    ;(await startTls('imap', '127.0.0.1', imap, 2000)).destroy()
+    await new Promise(resolve => server!.close(resolve))
+
+    const pop3 = await serve(socket => {
+      socket.write('+OK POP3 ready\r\n')
+      lines({ STLS: '+OK Begin TLS negotiation\r\n' })(socket)
+    })
+    ;(await startTls('pop3', '127.0.0.1', pop3, 2000)).destroy()
+    await new Promise(resolve => server!.close(resolve))
+
+    const ftp = await serve(socket => {
+      socket.write('220 FTP ready\r\n')
+      lines({ 'AUTH TLS': '234 AUTH TLS successful\r\n' })(socket)
+    })
+    ;(await startTls('ftp', '127.0.0.1', ftp, 2000)).destroy()
+  })
+
+  it('reports a refused FTP upgrade', async () => {
+    const port = await serve(socket => {
+      socket.write('220 FTP ready\r\n')
+      lines({ 'AUTH TLS': '502 Command not implemented\r\n' })(socket)
+    })
+
+    await expect(startTls('ftp', '127.0.0.1', port, 2000)).rejects.toThrow('Unexpected AUTH TLS reply: 502 Command not implemented')
+  })
+
+  it('sends the LDAP StartTLS extended operation and checks its result code', async () => {
+    const received: Buffer[] = []
+    let resultCode = 0
+    const port = await serve(socket => {
+      socket.on('data', chunk => {
+        received.push(chunk)
+        // ExtendedResponse { resultCode, matchedDN "", diagnosticMessage "" }
+        socket.write(Buffer.from([0x30, 0x0c, 0x02, 0x01, 0x01, 0x78, 0x07, 0x0a, 0x01, resultCode, 0x04, 0x00, 0x04, 0x00]))
+      })
+    })
+
+    ;(await startTls('ldap', '127.0.0.1', port, 2000)).destroy()
+    expect(received[0].subarray(-22).toString()).toBe('1.3.6.1.4.1.1466.20037')
+
+    resultCode = 2
+    await expect(startTls('ldap', '127.0.0.1', port, 2000)).rejects.toThrow('StartTLS refused (LDAP result code 2)')
+  })
+
+  it('sends the PostgreSQL SSLRequest', async () => {
+    let answer = 'S'
+    const port = await serve(socket => {
+      socket.once('data', chunk => {
+        expect(chunk.readInt32BE(4)).toBe(80877103)
+        socket.write(answer)
+      })
+    })
+
+    ;(await startTls('postgres', '127.0.0.1', port, 2000)).destroy()
+
+    answer = 'N'
+    await expect(startTls('postgres', '127.0.0.1', port, 2000)).rejects.toThrow('Server does not accept SSL connections')
+  })
+
+  it('times out on a silent server', async () => {
+    const port = await serve(() => undefined)
+
+    await expect(startTls('pop3', '127.0.0.1', port, 100)).rejects.toThrow('Connection timeout')
+  })
+})
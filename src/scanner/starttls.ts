@@ -0,0 +1,235 @@
+import * as net from 'net'
+
+export type StartTlsProtocol = 'smtp' | 'imap' | 'pop3' | 'ldap' | 'ftp' | 'postgres'
+
+// Port a STARTTLS check uses when the check has none
+export const STARTTLS_PORTS: Record<StartTlsProtocol, number> = {
+  smtp: 25,
+  imap: 143,
+  pop3: 110,
+  ldap: 389,
+  ftp: 21,
+  postgres: 5432,
+}
+
+const EHLO_NAME = 'velocitypulse-agent'
+
+// LDAPMessage { messageID 1, ExtendedRequest { requestName "1.3.6.1.4.1.1466.20037" } }
+const LDAP_STARTTLS_OID = '1.3.6.1.4.1.1466.20037'
+const LDAP_STARTTLS_REQUEST = Buffer.concat([
+  Buffer.from([0x30, 0x1d, 0x02, 0x01, 0x01, 0x77, 0x18, 0x80, 0x16]),
+  Buffer.from(LDAP_STARTTLS_OID),
+])
+
+// PostgreSQL SSLRequest: length 8, code 80877103
+const POSTGRES_SSL_REQUEST = Buffer.from([0x00, 0x00, 0x00, 0x08, 0x04, 0xd2, 0x16, 0x2f])
+
+// What a parser read from the front of the buffer and how many bytes it took, or null until more data arrives
+type Parser<T> = (buffer: Buffer) => { value: T; length: number } | null
+
+/**
+ * Buffered reads over a plain socket until it's handed to TLS
+ */
+class PlainSession {
+  private socket: net.Socket
+  private buffer = Buffer.alloc(0)
+  private error: Error | null = null
+  private wake: (() => void) | null = null
+
+  constructor(socket: net.Socket) {
+    this.socket = socket
+    socket.on('data', this.onData)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  write(data: string | Buffer): void {
+    this.socket.write(data)
+  }
+
+  async read<T>(parse: Parser<T>): Promise<T> {
+    for (;;) {
+      const parsed = parse(this.buffer)
+      if (parsed) {
+        this.buffer = this.buffer.subarray(parsed.length)
+        return parsed.value
+      }
+      if (this.error) throw this.error
+      await new Promise<void>(resolve => { this.wake = resolve })
+    }
+  }
+
+  /**
+   * Stop reading and return the socket for the TLS handshake
+   */
+  release(): net.Socket {
+    this.socket.off('data', this.onData)
+    this.socket.off('error', this.onError)
+    this.socket.off('close', this.onClose)
+    return this.socket
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    this.notify()
+  }
+
+  private onError = (err: Error) => {
+    this.error ??= err
+    this.notify()
+  }
+
+  private onClose = () => {
+    this.onError(new Error('Connection closed by server'))
+  }
+
+  private notify(): void {
+    const wake = this.wake
+    this.wake = null
+    wake?.()
+  }
+}
+
+const line: Parser<string> = buffer => {
+  const end = buffer.indexOf('\n')
+  return end < 0 ? null : { value: buffer.subarray(0, end).toString('utf-8').replace(/\r$/, ''), length: end + 1 }
+}
+
+interface CodedReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * SMTP/FTP reply: any `250-...` continuation lines up to the final `250 ...`
+ */
+async function codedReply(session: PlainSession): Promise<CodedReply> {
+  const lines: string[] = []
+  for (;;) {
+    const text = await session.read(line)
+    lines.push(text)
+    const match = /^(\d{3})( |$)/.exec(text)
+    if (match) return { code: Number(match[1]), lines }
+  }
+}
+
+function expectCode(reply: CodedReply, code: number, step: string): void {
+  if (reply.code !== code) {
+    throw new Error(`Unexpected ${step} reply: ${reply.lines[reply.lines.length - 1]}`)
+  }
+}
+
+// Tag and content bounds of the BER element at offset, or null if the buffer doesn't hold its header yet
+function berElement(buffer: Buffer, offset: number): { tag: number; start: number; end: number } | null {
+  if (buffer.length < offset + 2) return null
+  let length = buffer[offset + 1]
+  let start = offset + 2
+  if (length & 0x80) {
+    const bytes = length & 0x7f
+    if (buffer.length < start + bytes) return null
+    length = 0
+    for (let i = 0; i < bytes; i++) length = length * 256 + buffer[start + i]
+    start += bytes
+  }
+  return { tag: buffer[offset], start, end: start + length }
+}
+
+const ldapMessage: Parser<Buffer> = buffer => {
+  const message = berElement(buffer, 0)
+  return message && buffer.length >= message.end ? { value: buffer.subarray(0, message.end), length: message.end } : null
+}
+
+const UPGRADES: Record<StartTlsProtocol, (session: PlainSession) => Promise<void>> = {
+  async smtp(session) {
+    expectCode(await codedReply(session), 220, 'greeting')
+    session.write(`EHLO ${EHLO_NAME}\r\n`)
+    const ehlo = await codedReply(session)
+    expectCode(ehlo, 250, 'EHLO')
+    if (!ehlo.lines.some(l => /^250[- ]STARTTLS\b/i.test(l))) {
+      throw new Error('Server does not offer STARTTLS')
+    }
+    session.write('STARTTLS\r\n')
+    expectCode(await codedReply(session), 220, 'STARTTLS')
+  },
+
+  async imap(session) {
+    const greeting = await session.read(line)
+    if (!/^\* (OK|PREAUTH)\b/i.test(greeting)) {
+      throw new Error(`Unexpected greeting reply: ${greeting}`)
+    }
+    session.write('a1 STARTTLS\r\n')
+    let reply: string
+    do {
+      reply = await session.read(line)
+    } while (!reply.startsWith('a1 '))
+    if (!/^a1 OK\b/i.test(reply)) {
+      throw new Error(`Unexpected STARTTLS reply: ${reply}`)
+    }
+  },
+
+  async pop3(session) {
+    const greeting = await session.read(line)
+    if (!greeting.startsWith('+OK')) {
+      throw new Error(`Unexpected greeting reply: ${greeting}`)
+    }
+    session.write('STLS\r\n')
+    const reply = await session.read(line)
+    if (!reply.startsWith('+OK')) {
+      throw new Error(`Unexpected STLS reply: ${reply}`)
+    }
+  },
+
+  async ftp(session) {
+    expectCode(await codedReply(session), 220, 'greeting')
+    session.write('AUTH TLS\r\n')
+    expectCode(await codedReply(session), 234, 'AUTH TLS')
+  },
+
+  async ldap(session) {
+    session.write(LDAP_STARTTLS_REQUEST)
+    const message = await session.read(ldapMessage)
+    // LDAPMessage { messageID, ExtendedResponse [APPLICATION 24] { resultCode ENUMERATED, ... } }
+    const messageId = berElement(message, berElement(message, 0)!.start)
+    const response = messageId && berElement(message, messageId.end)
+    const result = response?.tag === 0x78 ? berElement(message, response.start) : null
+    if (!result || result.tag !== 0x0a) {
+      throw new Error('Unexpected StartTLS response')
+    }
+    if (message[result.start] !== 0) {
+      throw new Error(`StartTLS refused (LDAP result code ${message[result.start]})`)
+    }
+  },
+
+  async postgres(session) {
+    session.write(POSTGRES_SSL_REQUEST)
+    const answer = await session.read(buffer => (buffer.length > 0 ? { value: buffer[0], length: 1 } : null))
+    if (answer !== 0x53) { // 'S'
+      throw new Error('Server does not accept SSL connections')
+    }
+  },
+}
+
+/**
+ * Connect in plain text and negotiate the protocol's switch to TLS. Resolves with the socket,
+ * ready for the TLS handshake; rejects if the server refuses or doesn't answer in time.
+ */
+export async function startTls(
+  protocol: StartTlsProtocol,
+  host: string,
+  port: number,
+  timeout = 10000
+): Promise<net.Socket> {
+  const socket = net.connect({ host, port })
+  const session = new PlainSession(socket)
+  const timer = setTimeout(() => socket.destroy(new Error('Connection timeout')), timeout)
+
+  try {
+    await UPGRADES[protocol](session)
+    return session.release()
+  } catch (error) {
+    socket.destroy()
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
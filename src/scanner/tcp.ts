@@ -1,5 +1,6 @@
 import * as net from 'net'
 import type { Logger } from '../utils/logger.js'
+import { probeGate } from './probe-gate.js'
 
 export interface TcpResult {
   ip_address: string
@@ -18,6 +19,7 @@ export async function checkTcpPort(
   logger: Logger,
   timeout = 5000
 ): Promise<TcpResult> {
+  await probeGate.acquire()
   const startTime = Date.now()
 
   return new Promise((resolve) => {
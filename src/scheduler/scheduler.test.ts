@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { CheckScheduler, jobOffset, type ScheduledJob } from './scheduler.js'
+import type { Logger } from '../utils/logger.js'
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger
+
+function job(id: string, run: () => Promise<void>, overrides: Partial<ScheduledJob> = {}): ScheduledJob {
+  return { id, group: 'test', intervalMs: 1000, priority: 0, run, ...overrides }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('CheckScheduler', () => {
+  it('never runs more jobs at once than the concurrency limit', async () => {
+    const scheduler = new CheckScheduler({ concurrency: 2 }, mockLogger)
+    let active = 0
+    let peak = 0
+    const run = async () => {
+      active++
+      peak = Math.max(peak, active)
+      await delay(100)
+      active--
+    }
+
+    scheduler.sync('test', ['a', 'b', 'c', 'd', 'e'].map(id => job(id, run)))
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(500)
+    scheduler.stop()
+
+    expect(peak).toBe(2)
+    expect(scheduler.getMetrics().completed).toBe(5)
+  })
+
+  it('starts higher priority jobs first', async () => {
+    const scheduler = new CheckScheduler({ concurrency: 1 }, mockLogger)
+    const order: string[] = []
+    const run = (id: string) => async () => { order.push(id) }
+
+    scheduler.sync('test', [
+      job('discovered', run('discovered'), { priority: 0 }),
+      job('monitored', run('monitored'), { priority: 10 }),
+    ])
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(10)
+    scheduler.stop()
+
+    expect(order).toEqual(['monitored', 'discovered'])
+  })
+
+  it('runs each job on its own interval without overlapping itself', async () => {
+    const scheduler = new CheckScheduler({ concurrency: 4 }, mockLogger)
+    const fast = vi.fn(async () => {})
+    const slow = vi.fn(() => delay(2500))
+
+    scheduler.sync('test', [
+      job('fast', fast, { intervalMs: 1000 }),
+      job('slow', slow, { intervalMs: 1000 }),
+    ])
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(3500)
+    scheduler.stop()
+
+    expect(fast).toHaveBeenCalledTimes(4)
+    expect(slow).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops jobs no longer listed for their group and reports lag', async () => {
+    const scheduler = new CheckScheduler({ concurrency: 1 }, mockLogger)
+    const run = () => delay(100)
+
+    scheduler.sync('local', [job('a', run, { group: 'local' }), job('b', run, { group: 'local' })])
+    scheduler.sync('remote', [job('r', run, { group: 'remote' })])
+    scheduler.sync('local', [job('a', run, { group: 'local' })])
+
+    expect(scheduler.has('b')).toBe(false)
+    expect(scheduler.has('r')).toBe(true)
+
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(300)
+    scheduler.stop()
+
+    // With one worker, the second job waited for the first
+    expect(scheduler.getMetrics().lag_max_ms).toBeGreaterThanOrEqual(100)
+  })
+
+  it('resumes the schedule of jobs restored from a previous run', async () => {
+    const scheduler = new CheckScheduler({ concurrency: 1 }, mockLogger)
+    const run = vi.fn(async () => {})
+
+    scheduler.restoreLastRuns({ restored: Date.now() - 400 })
+    scheduler.sync('test', [job('restored', run, { intervalMs: 1000 })])
+    scheduler.start()
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(run).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(200)
+    scheduler.stop()
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(scheduler.getLastRuns()).toEqual({ restored: expect.any(Number) })
+  })
+
+  it('spreads jobs across their interval at stable offsets', async () => {
+    vi.setSystemTime(0)
+    const scheduler = new CheckScheduler({ concurrency: 10, spread: true }, mockLogger)
+    const started = new Map<string, number[]>()
+    const ids = ['10.0.0.1', '10.0.0.2', '10.0.0.3', '10.0.0.4']
+    const run = (id: string) => async () => {
+      started.set(id, [...(started.get(id) ?? []), Date.now()])
+    }
+
+    scheduler.sync('test', ids.map(id => job(id, run(id), { intervalMs: 10000 })))
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(20000)
+    scheduler.stop()
+
+    for (const id of ids) {
+      const offset = jobOffset(id, 10000)
+      expect(started.get(id)).toEqual([offset, offset + 10000])
+    }
+    expect(new Set(ids.map(id => jobOffset(id, 10000))).size).toBe(ids.length)
+  })
+
+  it('delays runs by jitter without drifting off the schedule', async () => {
+    vi.setSystemTime(0)
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    const scheduler = new CheckScheduler({ concurrency: 1, jitter: 0.2 }, mockLogger)
+    const starts: number[] = []
+
+    scheduler.sync('test', [job('a', async () => { starts.push(Date.now()) }, { intervalMs: 1000 })])
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(2500)
+    scheduler.stop()
+
+    expect(starts).toEqual([100, 1100, 2100])
+  })
+})
@@ -0,0 +1,281 @@
+import type { Logger } from '../utils/logger.js'
+
+export interface ScheduledJob {
+  // Unique key, e.g. `local:10.0.0.5` or `remote:<device id>`
+  id: string
+  // Jobs are registered and pruned per group (one group per loop)
+  group: string
+  intervalMs: number
+  // Higher runs first when more jobs are due than there are free workers
+  priority: number
+  run: () => Promise<void>
+}
+
+export interface SchedulerOptions {
+  concurrency: number
+  // Give each job a fixed offset within its interval, derived from its id, so jobs sharing
+  // an interval are spread across it instead of all being due at once
+  spread?: boolean
+  // Random delay added to each run, as a fraction of the job's interval (0 = none)
+  jitter?: number
+  // How many recent runs lag statistics are computed over
+  lagWindow?: number
+}
+
+export interface SchedulerMetrics {
+  jobs: number
+  running: number
+  // Jobs that are due but waiting for a free worker
+  waiting: number
+  completed: number
+  failed: number
+  // How late jobs started relative to their due time, over the recent window
+  lag_avg_ms: number
+  lag_p95_ms: number
+  lag_max_ms: number
+}
+
+interface JobState {
+  job: ScheduledJob
+  // Scheduled slot, before jitter
+  slotAt: number
+  nextDueAt: number
+  lastRunAt?: number
+  running: boolean
+}
+
+/**
+ * Stable offset of a job within its interval (FNV-1a of the id), the same across restarts
+ */
+export function jobOffset(id: string, intervalMs: number): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % Math.max(1, intervalMs)
+}
+
+/**
+ * Runs periodic jobs (device checks) on a bounded worker pool.
+ *
+ * Each job has its own next-due time. When more jobs are due than workers are free, higher
+ * priority jobs start first, then the most overdue. A job never overlaps itself; if it falls
+ * behind, missed runs are skipped rather than replayed in a burst.
+ *
+ * To avoid traffic spikes, jobs can be spread across their interval and delayed by random
+ * jitter. The probes they send are rate limited by the scanners' shared ProbeGate.
+ */
+export class CheckScheduler {
+  private logger: Logger
+  private concurrency: number
+  private spread: boolean
+  private jitter: number
+  private lagWindow: number
+  private jobs = new Map<string, JobState>()
+  private running = 0
+  private completed = 0
+  private failed = 0
+  private lags: number[] = []
+  // Last run times from a previous process, applied when their jobs are first registered
+  private restoredRuns = new Map<string, number>()
+  private timer: NodeJS.Timeout | null = null
+  private started = false
+
+  constructor(options: SchedulerOptions, logger: Logger) {
+    this.logger = logger
+    this.concurrency = Math.max(1, options.concurrency)
+    this.spread = options.spread ?? false
+    this.jitter = options.jitter ?? 0
+    this.lagWindow = options.lagWindow ?? 500
+  }
+
+  /**
+   * Replace the jobs of a group: new jobs are added (due now, or at their offset when
+   * spreading), existing ones keep their
+   * schedule but pick up the new definition, and jobs no longer listed are removed.
+   */
+  sync(group: string, jobs: ScheduledJob[]): void {
+    const ids = new Set(jobs.map(j => j.id))
+
+    for (const [id, state] of this.jobs) {
+      if (state.job.group === group && !ids.has(id)) {
+        this.jobs.delete(id)
+      }
+    }
+
+    const now = Date.now()
+    for (const job of jobs) {
+      const existing = this.jobs.get(job.id)
+      if (existing) {
+        // A shorter interval takes effect right away instead of after the old one elapses
+        if (job.intervalMs < existing.job.intervalMs) {
+          const slotAt = this.spread ? this.nextSlot(job, now) : now + job.intervalMs
+          if (slotAt < existing.slotAt) {
+            existing.slotAt = slotAt
+            existing.nextDueAt = Math.min(existing.nextDueAt, slotAt + this.jitterDelay(job))
+          }
+        }
+        existing.job = job
+      } else {
+        // A job that ran shortly before a restart waits out the rest of its interval
+        const lastRunAt = this.restoredRuns.get(job.id)
+        this.restoredRuns.delete(job.id)
+        const from = lastRunAt !== undefined ? Math.min(Math.max(lastRunAt + job.intervalMs, now), now + job.intervalMs) : now
+        let slotAt = from
+        if (this.spread) {
+          slotAt = this.nextSlot(job, from)
+          if (slotAt > now + job.intervalMs) slotAt -= job.intervalMs
+        }
+        this.jobs.set(job.id, { job, slotAt, nextDueAt: slotAt + this.jitterDelay(job), lastRunAt, running: false })
+      }
+    }
+
+    this.wake()
+  }
+
+  has(id: string): boolean {
+    return this.jobs.has(id)
+  }
+
+  /**
+   * When each job last started, for persisting across restarts
+   */
+  getLastRuns(): Record<string, number> {
+    const lastRuns: Record<string, number> = {}
+    for (const [id, state] of this.jobs) {
+      if (state.lastRunAt !== undefined) lastRuns[id] = state.lastRunAt
+    }
+    return lastRuns
+  }
+
+  /**
+   * Seed last run times from a previous process. Call before the jobs are synced.
+   */
+  restoreLastRuns(lastRuns: Record<string, number>): void {
+    for (const [id, lastRunAt] of Object.entries(lastRuns)) {
+      if (!this.jobs.has(id)) this.restoredRuns.set(id, lastRunAt)
+    }
+  }
+
+  start(): void {
+    this.started = true
+    this.wake()
+  }
+
+  stop(): void {
+    this.started = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  getMetrics(): SchedulerMetrics {
+    const now = Date.now()
+    let waiting = 0
+    for (const state of this.jobs.values()) {
+      if (!state.running && state.nextDueAt <= now) waiting++
+    }
+
+    const sorted = [...this.lags].sort((a, b) => a - b)
+    const avg = sorted.length > 0 ? sorted.reduce((sum, lag) => sum + lag, 0) / sorted.length : 0
+
+    return {
+      jobs: this.jobs.size,
+      running: this.running,
+      waiting,
+      completed: this.completed,
+      failed: this.failed,
+      lag_avg_ms: Math.round(avg),
+      lag_p95_ms: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
+      lag_max_ms: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    }
+  }
+
+  /**
+   * Start as many due jobs as there are free workers, then sleep until the next due time
+   */
+  private dispatch(): void {
+    this.timer = null
+    if (!this.started) return
+
+    const now = Date.now()
+    const due = Array.from(this.jobs.values())
+      .filter(s => !s.running && s.nextDueAt <= now)
+      .sort((a, b) => b.job.priority - a.job.priority || a.nextDueAt - b.nextDueAt)
+
+    for (const state of due) {
+      if (this.running >= this.concurrency) break
+      this.execute(state, now)
+    }
+
+    this.wake()
+  }
+
+  private execute(state: JobState, now: number): void {
+    this.recordLag(now - state.nextDueAt)
+    state.lastRunAt = now
+    state.running = true
+    this.running++
+
+    state.job.run()
+      .then(() => {
+        this.completed++
+      })
+      .catch((error) => {
+        this.failed++
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.debug(`Scheduled job ${state.job.id} failed: ${errorMsg}`)
+      })
+      .finally(() => {
+        state.running = false
+        this.running--
+        // Keep a fixed cadence, but never schedule in the past (skip missed runs)
+        const next = Math.max(state.slotAt + state.job.intervalMs, Date.now())
+        state.slotAt = this.spread ? this.nextSlot(state.job, next) : next
+        state.nextDueAt = state.slotAt + this.jitterDelay(state.job)
+        this.wake()
+      })
+  }
+
+  /**
+   * First time at or after `from` that falls on the job's offset within its interval
+   */
+  private nextSlot(job: ScheduledJob, from: number): number {
+    const interval = Math.max(1, job.intervalMs)
+    const intoCycle = (((from - jobOffset(job.id, interval)) % interval) + interval) % interval
+    return intoCycle === 0 ? from : from + interval - intoCycle
+  }
+
+  private jitterDelay(job: ScheduledJob): number {
+    return this.jitter > 0 ? Math.floor(Math.random() * this.jitter * job.intervalMs) : 0
+  }
+
+  private recordLag(lagMs: number): void {
+    this.lags.push(Math.max(0, lagMs))
+    if (this.lags.length > this.lagWindow) {
+      this.lags.shift()
+    }
+  }
+
+  /**
+   * (Re)arm the timer for the earliest due job that could start now
+   */
+  private wake(): void {
+    if (!this.started) return
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    if (this.running >= this.concurrency) return // a finishing job wakes us
+
+    let nextDueAt = Infinity
+    for (const state of this.jobs.values()) {
+      if (!state.running && state.nextDueAt < nextDueAt) nextDueAt = state.nextDueAt
+    }
+    if (nextDueAt === Infinity) return
+
+    this.timer = setTimeout(() => this.dispatch(), Math.max(0, nextDueAt - Date.now()))
+  }
+}
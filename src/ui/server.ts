@@ -4,8 +4,12 @@ import { createServer } from 'http'
 import { Server as SocketIOServer } from 'socket.io'
 import path from 'path'
 import { fileURLToPath } from 'url'
-import type { Logger } from '../utils/logger.js'
+import { redactSecrets, type Logger } from '../utils/logger.js'
 import { BUILD_ID } from '../utils/version.js'
+import type { TransportMode } from '../api/transport.js'
+import type { HistoryQuery, HistoryResult, Resolution } from '../monitor/timeseries.js'
+import type { DeviceSla, SegmentSla } from '../monitor/sla.js'
+import type { HttpTimings } from '../scanner/http.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -39,9 +43,11 @@ export interface AgentUIState {
   version: string
   buildId: string
   connected: boolean
+  transport: TransportMode
   lastHeartbeat: string | null
   segments: SegmentInfo[]
   devices: DeviceInfo[]
+  checks: CheckInfo[]
   logs: LogEntry[]
   scanning: boolean
   health: HealthStats
@@ -63,17 +69,56 @@ export interface DeviceInfo {
   name: string
   ip: string
   mac?: string
-  status: 'online' | 'offline' | 'degraded' | 'unknown'
+  // Segment the device was discovered in
+  segmentId?: string
+  status: 'online' | 'offline' | 'degraded' | 'flapping' | 'unreachable' | 'unknown'
   responseTime?: number
   lastCheck?: string
 }
 
+/**
+ * Latest result of one check of a dashboard device
+ */
+export interface CheckInfo {
+  // `<device id>:<check id>`
+  id: string
+  deviceName: string
+  checkType: string
+  status: DeviceInfo['status']
+  responseTime?: number
+  // HTTP checks: where the response time went
+  httpTimings?: HttpTimings
+  error?: string
+  lastCheck: string
+}
+
 export interface LogEntry {
   timestamp: string
   level: 'debug' | 'info' | 'warn' | 'error'
   message: string
 }
 
+// Where /api/history reads from (the local time-series store)
+export interface HistorySource {
+  query(query: HistoryQuery): Promise<HistoryResult>
+}
+
+// Where /api/sla reads from
+export interface SlaSource {
+  device(device: string, from: number, to: number): Promise<DeviceSla>
+  segment(segmentId: string, from: number, to: number): Promise<SegmentSla | null>
+}
+
+const RESOLUTIONS: (Resolution | 'auto')[] = ['auto', 'raw', '5m', '1h']
+
+/**
+ * Parse a time parameter given as epoch milliseconds or an ISO date
+ */
+function parseTime(value: unknown, fallback: number): number {
+  if (typeof value !== 'string' || value === '') return fallback
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+}
+
 export class AgentUIServer {
   private app: express.Application
   private httpServer: ReturnType<typeof createServer>
@@ -82,6 +127,8 @@ export class AgentUIServer {
   private state: AgentUIState
   private port: number
   private healthInterval: ReturnType<typeof setInterval> | null = null
+  private history: HistorySource | null = null
+  private sla: SlaSource | null = null
   private startedAt: string
 
   constructor(port: number, logger: Logger, initialState: Partial<AgentUIState> = {}) {
@@ -106,9 +153,11 @@ export class AgentUIServer {
       version: '1.0.0',
       buildId: BUILD_ID,
       connected: false,
+      transport: 'http',
       lastHeartbeat: null,
       segments: [],
       devices: [],
+      checks: [],
       logs: [],
       scanning: false,
       health: {
@@ -144,7 +193,7 @@ export class AgentUIServer {
 
     // API endpoints
     this.app.get('/api/status', (_req, res) => {
-      res.json(this.state)
+      res.json(this.publicState())
     })
 
     // Trigger manual scan
@@ -159,6 +208,78 @@ export class AgentUIServer {
       res.json({ success: true, message: 'Ping sent' })
     })
 
+    // Check result history of one series (a device IP, or `<device id>:<check id>`)
+    this.app.get('/api/history', async (req, res) => {
+      if (!this.history) {
+        res.status(503).json({ success: false, error: 'History is not available' })
+        return
+      }
+
+      const key = req.query.key
+      const to = parseTime(req.query.to, Date.now())
+      const from = parseTime(req.query.from, to - 6 * 60 * 60 * 1000)
+      const resolution = (req.query.resolution ?? 'auto') as Resolution | 'auto'
+
+      if (typeof key !== 'string' || key === '') {
+        res.status(400).json({ success: false, error: 'key is required' })
+        return
+      }
+      if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+        res.status(400).json({ success: false, error: 'from and to must be times with from <= to' })
+        return
+      }
+      if (!RESOLUTIONS.includes(resolution)) {
+        res.status(400).json({ success: false, error: `resolution must be one of ${RESOLUTIONS.join(', ')}` })
+        return
+      }
+
+      try {
+        res.json({ success: true, ...await this.history.query({ key, from, to, resolution }) })
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.error(`History query failed: ${errorMsg}`)
+        res.status(500).json({ success: false, error: 'History query failed' })
+      }
+    })
+
+    // Uptime, outages, MTTR and MTBF of a device or segment (default: the last 30 days)
+    this.app.get('/api/sla', async (req, res) => {
+      if (!this.sla) {
+        res.status(503).json({ success: false, error: 'SLA reporting is not available' })
+        return
+      }
+
+      const { device, segment } = req.query
+      const to = parseTime(req.query.to, Date.now())
+      const from = parseTime(req.query.from, to - 30 * 24 * 60 * 60 * 1000)
+
+      if ((typeof device === 'string' && device !== '') === (typeof segment === 'string' && segment !== '')) {
+        res.status(400).json({ success: false, error: 'exactly one of device or segment is required' })
+        return
+      }
+      if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+        res.status(400).json({ success: false, error: 'from and to must be times with from <= to' })
+        return
+      }
+
+      try {
+        if (typeof segment === 'string') {
+          const report = await this.sla.segment(segment, from, to)
+          if (!report) {
+            res.status(404).json({ success: false, error: `Unknown segment ${segment}` })
+            return
+          }
+          res.json({ success: true, ...report })
+        } else {
+          res.json({ success: true, ...await this.sla.device(device as string, from, to) })
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.error(`SLA query failed: ${errorMsg}`)
+        res.status(500).json({ success: false, error: 'SLA query failed' })
+      }
+    })
+
     // Fallback to index.html for SPA routing
     this.app.get('/{*path}', (_req, res) => {
       res.sendFile(path.join(publicPath, 'index.html'))
@@ -170,7 +291,7 @@ export class AgentUIServer {
       this.logger.debug(`UI client connected: ${socket.id}`)
 
       // Send current state on connect
-      socket.emit('state', this.state)
+      socket.emit('state', this.publicState())
 
       socket.on('disconnect', () => {
         this.logger.debug(`UI client disconnected: ${socket.id}`)
@@ -185,8 +306,23 @@ export class AgentUIServer {
     })
   }
 
+  /**
+   * State as exposed to UI clients, with any registered credential masked
+   */
+  private publicState(): AgentUIState {
+    return JSON.parse(redactSecrets(JSON.stringify(this.state))) as AgentUIState
+  }
+
   // Update methods called from the main agent loop
 
+  setHistorySource(source: HistorySource): void {
+    this.history = source
+  }
+
+  setSlaSource(source: SlaSource): void {
+    this.sla = source
+  }
+
   updateConnection(connected: boolean, agentId?: string, organizationId?: string): void {
     this.state.connected = connected
     if (agentId) this.state.agentId = agentId
@@ -200,6 +336,12 @@ export class AgentUIServer {
     })
   }
 
+  updateTransport(transport: TransportMode): void {
+    if (this.state.transport === transport) return
+    this.state.transport = transport
+    this.io.emit('transport', transport)
+  }
+
   updateSegments(segments: SegmentInfo[]): void {
     this.state.segments = segments
     this.io.emit('segments', segments)
@@ -243,6 +385,27 @@ export class AgentUIServer {
     }
   }
 
+  updateCheck(check: CheckInfo): void {
+    const existing = this.state.checks.findIndex(c => c.id === check.id)
+    if (existing >= 0) {
+      this.state.checks[existing] = check
+    } else {
+      this.state.checks.push(check)
+    }
+    this.io.emit('check_status', check)
+  }
+
+  /**
+   * Drop checks that are no longer scheduled
+   */
+  pruneChecks(activeIds: Set<string>): void {
+    const checks = this.state.checks.filter(c => activeIds.has(c.id))
+    if (checks.length !== this.state.checks.length) {
+      this.state.checks = checks
+      this.io.emit('checks', checks)
+    }
+  }
+
   updateVersionInfo(latest: string | null, updateAvailable: boolean): void {
     this.state.versionInfo = {
       current: this.state.version,
@@ -276,7 +439,7 @@ export class AgentUIServer {
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level,
-      message,
+      message: redactSecrets(message),
     }
 
     // Keep last 100 logs
@@ -7,6 +7,7 @@ import * as https from 'https'
 import * as http from 'http'
 import type { Logger } from '../utils/logger.js'
 import { VERSION } from '../utils/version.js'
+import type { OutboundAgents } from '../api/http-agents.js'
 
 const execAsync = promisify(exec)
 const fsPromises = fs.promises
@@ -21,19 +22,19 @@ export interface UpgradeResult {
 /**
  * Download a file from a URL to a local path
  */
-function downloadFile(url: string, dest: string): Promise<void> {
+function downloadFile(url: string, dest: string, agents?: OutboundAgents): Promise<void> {
   return new Promise((resolve, reject) => {
     const file = fs.createWriteStream(dest)
     const protocol = url.startsWith('https') ? https : http
 
-    protocol.get(url, (response) => {
+    protocol.get(url, { agent: agents?.agentFor(url) }, (response) => {
       // Follow redirects
       if (response.statusCode === 301 || response.statusCode === 302) {
         const redirectUrl = response.headers.location
         if (redirectUrl) {
           file.close()
           fs.unlinkSync(dest)
-          downloadFile(redirectUrl, dest).then(resolve).catch(reject)
+          downloadFile(redirectUrl, dest, agents).then(resolve).catch(reject)
           return
         }
       }
@@ -90,7 +91,8 @@ function getInstallDir(): string {
 export async function performUpgrade(
   targetVersion: string,
   downloadUrl: string,
-  logger: Logger
+  logger: Logger,
+  agents?: OutboundAgents
 ): Promise<UpgradeResult> {
   const previousVersion = VERSION
   const installDir = getInstallDir()
@@ -110,7 +112,7 @@ export async function performUpgrade(
     const archivePath = path.join(tempDir, `agent${archiveExt}`)
 
     logger.info(`Downloading from: ${downloadUrl}`)
-    await downloadFile(downloadUrl, archivePath)
+    await downloadFile(downloadUrl, archivePath, agents)
 
     // Verify download exists and has size
     const archiveStat = await fsPromises.stat(archivePath)
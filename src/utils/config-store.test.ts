@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { apiKeyFingerprint, readStoredConfig, resolveApiKey, storeRotatedApiKey } from './config-store.js'
+
+const CONFIGURED_KEY = 'vp_acme_aBcDeFgHiJkLmNoPqRsT1234'
+const ROTATED_KEY = 'vp_acme_zYxWvUtSrQpOnMlKjIhG9876'
+
+let dataDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(path.join(os.tmpdir(), 'vp-config-'))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('readStoredConfig', () => {
+  it('treats a missing or corrupt file as empty', () => {
+    expect(readStoredConfig(dataDir)).toEqual({})
+
+    writeFileSync(path.join(dataDir, 'agent-config.json'), '{not json')
+    expect(readStoredConfig(dataDir)).toEqual({})
+  })
+})
+
+describe('resolveApiKey', () => {
+  it('uses the configured key when nothing was rotated', () => {
+    expect(resolveApiKey(CONFIGURED_KEY, dataDir)).toBe(CONFIGURED_KEY)
+  })
+
+  it('uses the rotated key while the configured key is the one it replaced', async () => {
+    await storeRotatedApiKey(dataDir, ROTATED_KEY, apiKeyFingerprint(CONFIGURED_KEY))
+
+    expect(resolveApiKey(CONFIGURED_KEY, dataDir)).toBe(ROTATED_KEY)
+  })
+
+  it('lets an edited VP_API_KEY win over the rotated key', async () => {
+    await storeRotatedApiKey(dataDir, ROTATED_KEY, apiKeyFingerprint(CONFIGURED_KEY))
+
+    expect(resolveApiKey('vp_acme_operatorEditedKey12345678', dataDir)).toBe('vp_acme_operatorEditedKey12345678')
+  })
+})
+
+describe('storeRotatedApiKey', () => {
+  it('keeps only fingerprints in the config file', async () => {
+    await storeRotatedApiKey(dataDir, ROTATED_KEY, apiKeyFingerprint(CONFIGURED_KEY))
+
+    const raw = readFileSync(path.join(dataDir, 'agent-config.json'), 'utf-8')
+    expect(raw).not.toContain(ROTATED_KEY)
+    expect(raw).not.toContain(CONFIGURED_KEY)
+    expect(readStoredConfig(dataDir)).toMatchObject({ configured_key_sha256: apiKeyFingerprint(CONFIGURED_KEY) })
+    expect(readFileSync(path.join(dataDir, 'secrets.json'), 'utf-8')).not.toContain(ROTATED_KEY)
+  })
+})
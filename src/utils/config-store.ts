@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs'
+import { createHash } from 'crypto'
+import path from 'path'
+import { writeJsonFileAtomic } from './json-file.js'
+import { SecretStore } from './secret-store.js'
+
+/**
+ * Settings changed at runtime by dashboard commands, persisted so they survive a restart
+ */
+export interface StoredConfig {
+  // Fingerprint of the configured VP_API_KEY that the rotated key (kept in the secret store) replaces
+  configured_key_sha256?: string
+  updated_at?: string
+}
+
+const FILE_NAME = 'agent-config.json'
+const ROTATED_KEY_SECRET = 'agent.rotated_api_key'
+
+/**
+ * SHA-256 fingerprint of an API key, safe to store and log
+ */
+export function apiKeyFingerprint(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex')
+}
+
+/**
+ * Read the stored config synchronously (loadConfig runs before anything async).
+ * A missing or unreadable file is treated as empty.
+ */
+export function readStoredConfig(dataDir: string): StoredConfig {
+  try {
+    const parsed = JSON.parse(readFileSync(path.join(dataDir, FILE_NAME), 'utf-8'))
+    return parsed && typeof parsed === 'object' ? parsed as StoredConfig : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Resolve the API key to use: a rotated key from the store applies only while the configured
+ * key is still the one it replaced, so an operator editing VP_API_KEY always wins.
+ */
+export function resolveApiKey(configuredKey: string, dataDir: string): string {
+  const stored = readStoredConfig(dataDir)
+  if (stored.configured_key_sha256 !== apiKeyFingerprint(configuredKey)) {
+    return configuredKey
+  }
+  return new SecretStore(dataDir).get(ROTATED_KEY_SECRET) ?? configuredKey
+}
+
+/**
+ * Persist a rotated API key. The key itself is encrypted in the secret store.
+ */
+export async function storeRotatedApiKey(dataDir: string, apiKey: string, configuredKeySha256: string): Promise<void> {
+  new SecretStore(dataDir).set(ROTATED_KEY_SECRET, apiKey)
+  const stored: StoredConfig = {
+    ...readStoredConfig(dataDir),
+    configured_key_sha256: configuredKeySha256,
+    updated_at: new Date().toISOString(),
+  }
+  await writeJsonFileAtomic(path.join(dataDir, FILE_NAME), stored, 0o600)
+}
@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Read and parse a JSON file. Returns null if the file does not exist.
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf-8')
+    return JSON.parse(raw) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename) so a crash never leaves it half-written
+ */
+export async function writeJsonFileAtomic(filePath: string, data: unknown, mode?: number): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.tmp`
+  await fs.writeFile(tmpPath, typeof data === 'string' ? data : JSON.stringify(data), { encoding: 'utf-8', mode })
+  await fs.rename(tmpPath, filePath)
+}
@@ -4,7 +4,40 @@ import path from 'path'
 
 export type Logger = winston.Logger
 
+// Credential values that must never reach a log line
+const registeredSecrets = new Set<string>()
+
+/**
+ * Register a credential so it is masked wherever it appears in log output
+ */
+export function registerSecret(value: string | undefined): void {
+  // Very short values would mask unrelated text
+  if (value && value.length >= 6) {
+    registeredSecrets.add(value)
+  }
+}
+
+/**
+ * Replace every registered credential in a string with a placeholder
+ */
+export function redactSecrets(text: string): string {
+  let result = text
+  for (const secret of registeredSecrets) {
+    result = result.split(secret).join('[REDACTED]')
+  }
+  return result
+}
+
+const redact = winston.format((info) => {
+  info.message = redactSecrets(String(info.message))
+  if (typeof info.stack === 'string') {
+    info.stack = redactSecrets(info.stack)
+  }
+  return info
+})
+
 const logFormat = winston.format.combine(
+  redact(),
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
   winston.format.errors({ stack: true }),
   winston.format.printf(({ level, message, timestamp, stack }) => {
@@ -14,6 +47,7 @@ const logFormat = winston.format.combine(
 )
 
 const consoleFormat = winston.format.combine(
+  redact(),
   winston.format.timestamp({ format: 'HH:mm:ss' }),
   winston.format.colorize(),
   winston.format.printf(({ level, message, timestamp }) => {
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { SecretStore } from './secret-store.js'
+
+let dataDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(path.join(os.tmpdir(), 'vp-secrets-'))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('SecretStore', () => {
+  it('round-trips values without writing them in plaintext', () => {
+    const store = new SecretStore(dataDir, 'host-a')
+    store.set('api_key', 'vp_acme_aBcDeFgHiJkLmNoPqRsT1234')
+
+    expect(new SecretStore(dataDir, 'host-a').get('api_key')).toBe('vp_acme_aBcDeFgHiJkLmNoPqRsT1234')
+    expect(readFileSync(path.join(dataDir, 'secrets.json'), 'utf-8')).not.toContain('aBcDeFgHiJkLmNoPqRsT1234')
+  })
+
+  it.skipIf(process.platform === 'win32')('keeps the key file and store owner-only', () => {
+    new SecretStore(dataDir, 'host-a').set('snmp.community', 'private-community')
+
+    expect(statSync(path.join(dataDir, 'secret.key')).mode & 0o777).toBe(0o600)
+    expect(statSync(path.join(dataDir, 'secrets.json')).mode & 0o777).toBe(0o600)
+  })
+
+  it('cannot decrypt on a different host', () => {
+    new SecretStore(dataDir, 'host-a').set('api_key', 'secret-value')
+
+    expect(() => new SecretStore(dataDir, 'host-b').get('api_key')).toThrow('could not be decrypted')
+  })
+
+  it('re-encrypts every entry when the key is rotated', () => {
+    const store = new SecretStore(dataDir, 'host-a')
+    store.set('one', 'first-value')
+    store.set('two', 'second-value')
+    const keyBefore = readFileSync(path.join(dataDir, 'secret.key'))
+
+    expect(store.rotateKey()).toBe(2)
+
+    expect(readFileSync(path.join(dataDir, 'secret.key')).equals(keyBefore)).toBe(false)
+    const reopened = new SecretStore(dataDir, 'host-a')
+    expect(reopened.get('one')).toBe('first-value')
+    expect(reopened.get('two')).toBe('second-value')
+  })
+
+  it('recovers from a rotation interrupted before or after the store was replaced', () => {
+    const keyPath = path.join(dataDir, 'secret.key')
+    const nextKeyPath = path.join(dataDir, 'secret.key.next')
+    const storePath = path.join(dataDir, 'secrets.json')
+    new SecretStore(dataDir, 'host-a').set('one', 'first-value')
+    const oldKey = readFileSync(keyPath)
+    const oldStore = readFileSync(storePath)
+    new SecretStore(dataDir, 'host-a').rotateKey()
+    const newKey = readFileSync(keyPath)
+    const newStore = readFileSync(storePath)
+
+    // Crashed after writing the next key, before replacing the store
+    writeFileSync(nextKeyPath, newKey)
+    writeFileSync(keyPath, oldKey)
+    writeFileSync(storePath, oldStore)
+    expect(new SecretStore(dataDir, 'host-a').get('one')).toBe('first-value')
+    expect(existsSync(nextKeyPath)).toBe(false)
+    expect(readFileSync(keyPath).equals(oldKey)).toBe(true)
+
+    // Crashed after replacing the store, before promoting the next key
+    writeFileSync(nextKeyPath, newKey)
+    writeFileSync(storePath, newStore)
+    expect(new SecretStore(dataDir, 'host-a').get('one')).toBe('first-value')
+    expect(existsSync(nextKeyPath)).toBe(false)
+    expect(readFileSync(keyPath).equals(newKey)).toBe(true)
+  })
+
+  it('lists names only and deletes entries', () => {
+    const store = new SecretStore(dataDir, 'host-a')
+    store.set('b', 'value-b')
+    store.set('a', 'value-a')
+
+    expect(store.list().map(s => s.name)).toEqual(['a', 'b'])
+    expect(store.delete('a')).toBe(true)
+    expect(store.delete('a')).toBe(false)
+    expect(store.get('a')).toBeUndefined()
+  })
+})
@@ -0,0 +1,230 @@
+import * as fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto'
+
+// Config values starting with this prefix are looked up in the secret store
+export const SECRET_REF_PREFIX = 'secret:'
+
+const KEY_FILE = 'secret.key'
+// New key material while a rotation is in progress; promoted once the store is re-encrypted
+const NEXT_KEY_FILE = 'secret.key.next'
+const STORE_FILE = 'secrets.json'
+const KEY_INFO = 'velocitypulse-agent secret store v1'
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/
+
+interface EncryptedEntry {
+  iv: string
+  tag: string
+  data: string
+  updatedAt: string
+}
+
+interface SecretFile {
+  version: 1
+  entries: Record<string, EncryptedEntry>
+}
+
+export interface SecretInfo {
+  name: string
+  updatedAt: string
+}
+
+/**
+ * Stable identifier for this machine. The store key is derived from it, so a copied
+ * data directory cannot be decrypted on another host.
+ */
+export function hostIdentity(): string {
+  for (const file of ['/etc/machine-id', '/var/lib/dbus/machine-id']) {
+    try {
+      const id = fs.readFileSync(file, 'utf-8').trim()
+      if (id) return id
+    } catch {
+      // Not available on this platform
+    }
+  }
+  return os.hostname()
+}
+
+/**
+ * Write a file atomically (temp file + rename) with owner-only permissions
+ */
+function writePrivateFileSync(filePath: string, data: string | Buffer): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.tmp`
+  fs.writeFileSync(tmpPath, data, { mode: 0o600 })
+  fs.renameSync(tmpPath, filePath)
+}
+
+/**
+ * Encrypted at-rest storage for API keys and check credentials.
+ *
+ * Values are sealed with AES-256-GCM under a key derived (HKDF) from a random key file
+ * in the data directory and the host identity. The key file and store are owner-only.
+ * Access is synchronous because config is resolved before the agent starts.
+ */
+export class SecretStore {
+  private keyPath: string
+  private nextKeyPath: string
+  private storePath: string
+  private hostId: string
+  private key: Buffer | null = null
+
+  constructor(dataDir: string, hostId: string = hostIdentity()) {
+    this.keyPath = path.join(dataDir, KEY_FILE)
+    this.nextKeyPath = path.join(dataDir, NEXT_KEY_FILE)
+    this.storePath = path.join(dataDir, STORE_FILE)
+    this.hostId = hostId
+  }
+
+  get(name: string): string | undefined {
+    const entry = this.read().entries[name]
+    if (!entry) return undefined
+
+    try {
+      return this.open(name, entry, this.encryptionKey())
+    } catch {
+      throw new Error(`Secret "${name}" could not be decrypted (key file missing, replaced or from another host)`)
+    }
+  }
+
+  has(name: string): boolean {
+    return name in this.read().entries
+  }
+
+  set(name: string, value: string): void {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name "${name}" (letters, digits, '.', '_' and '-' only)`)
+    }
+    const file = this.read()
+    file.entries[name] = this.seal(name, value, this.encryptionKey())
+    writePrivateFileSync(this.storePath, JSON.stringify(file, null, 2))
+  }
+
+  delete(name: string): boolean {
+    const file = this.read()
+    if (!(name in file.entries)) return false
+    delete file.entries[name]
+    writePrivateFileSync(this.storePath, JSON.stringify(file, null, 2))
+    return true
+  }
+
+  list(): SecretInfo[] {
+    return Object.entries(this.read().entries)
+      .map(([name, entry]) => ({ name, updatedAt: entry.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Generate a new key file and re-encrypt every entry under it.
+   *
+   * The new key is written beside the old one, then the store is replaced, then the new key
+   * is promoted. A crash at any point leaves a key file that opens the store on disk.
+   */
+  rotateKey(): number {
+    const values = this.list().map(({ name }) => [name, this.get(name)!] as const)
+    const keyMaterial = randomBytes(32)
+    const key = this.deriveKey(keyMaterial)
+
+    const file: SecretFile = { version: 1, entries: {} }
+    for (const [name, value] of values) {
+      file.entries[name] = this.seal(name, value, key)
+    }
+
+    writePrivateFileSync(this.nextKeyPath, keyMaterial)
+    writePrivateFileSync(this.storePath, JSON.stringify(file, null, 2))
+    fs.renameSync(this.nextKeyPath, this.keyPath)
+    this.key = key
+    return values.length
+  }
+
+  private seal(name: string, value: string, key: Buffer): EncryptedEntry {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
+    cipher.setAAD(Buffer.from(name))
+    const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()])
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+      updatedAt: new Date().toISOString(),
+    }
+  }
+
+  private open(name: string, entry: EncryptedEntry, key: Buffer): string {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'base64'))
+    decipher.setAAD(Buffer.from(name))
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf-8')
+  }
+
+  private read(): SecretFile {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.storePath, 'utf-8')) as SecretFile
+      return { version: 1, entries: parsed.entries ?? {} }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, entries: {} }
+      }
+      throw error
+    }
+  }
+
+  private deriveKey(keyMaterial: Buffer): Buffer {
+    return Buffer.from(hkdfSync('sha256', keyMaterial, this.hostId, KEY_INFO, 32))
+  }
+
+  /**
+   * Load the key file, creating it on first use and tightening loose permissions
+   */
+  private encryptionKey(): Buffer {
+    if (this.key) return this.key
+    this.finishRotation()
+
+    let keyMaterial: Buffer
+    try {
+      keyMaterial = fs.readFileSync(this.keyPath)
+      if (process.platform !== 'win32' && (fs.statSync(this.keyPath).mode & 0o077) !== 0) {
+        fs.chmodSync(this.keyPath, 0o600)
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      keyMaterial = randomBytes(32)
+      writePrivateFileSync(this.keyPath, keyMaterial)
+    }
+
+    this.key = this.deriveKey(keyMaterial)
+    return this.key
+  }
+
+  /**
+   * Complete or roll back a rotation that was interrupted: keep the next key only if the
+   * store was already re-encrypted under it
+   */
+  private finishRotation(): void {
+    let nextKeyMaterial: Buffer
+    try {
+      nextKeyMaterial = fs.readFileSync(this.nextKeyPath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw error
+    }
+
+    const nextKey = this.deriveKey(nextKeyMaterial)
+    const sealed = Object.entries(this.read().entries)
+    if (sealed.length > 0 && sealed.every(([name, entry]) => this.opens(name, entry, nextKey))) {
+      fs.renameSync(this.nextKeyPath, this.keyPath)
+    } else {
+      fs.rmSync(this.nextKeyPath, { force: true })
+    }
+  }
+
+  private opens(name: string, entry: EncryptedEntry, key: Buffer): boolean {
+    try {
+      this.open(name, entry, key)
+      return true
+    } catch {
+      return false
+    }
+  }
+}